@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAircraftFeed, isValidTail } from '@/lib/telemetry/feed'
+import { AircraftBusyError, startServerSimulation, stopServerSimulation } from '@/lib/telemetry/simulation'
+import { sessionRunSchema } from '@/lib/simulation/sessions'
+
+export const dynamic = 'force-dynamic'
+
+const startSchema = sessionRunSchema.omit({ aircraft: true })
+
+type Params = { params: Promise<{ tail: string }> }
+
+async function tailParam({ params }: Params): Promise<string | NextResponse> {
+  const { tail } = await params
+  return isValidTail(tail) ? tail : NextResponse.json({ error: `Invalid tail number: ${tail}` }, { status: 400 })
+}
+
+// Server-side flight simulation for one aircraft, watched over .../stream
+//   GET                                                -> status
+//   POST { seed, profile, faults, engine, subsystems } -> 202 status, 409 while one is running
+//   DELETE                                             -> final status, 404 when none is running
+export async function GET(_request: NextRequest, context: Params) {
+  const tail = await tailParam(context)
+  if (tail instanceof NextResponse) return tail
+  return NextResponse.json(getAircraftFeed(tail).status())
+}
+
+export async function POST(request: NextRequest, context: Params) {
+  const tail = await tailParam(context)
+  if (tail instanceof NextResponse) return tail
+
+  const body = await request.json().catch(() => undefined)
+  if (body === undefined) {
+    return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 })
+  }
+  const parsed = startSchema.safeParse(body)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+    return NextResponse.json({ error: 'Invalid simulation run', issues }, { status: 422 })
+  }
+
+  try {
+    const status = startServerSimulation(tail, { ...parsed.data, aircraft: tail.toUpperCase() })
+    return NextResponse.json(status, { status: 202 })
+  } catch (error) {
+    if (!(error instanceof AircraftBusyError)) throw error
+    return NextResponse.json({ error: error.message }, { status: 409 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: Params) {
+  const tail = await tailParam(context)
+  if (tail instanceof NextResponse) return tail
+  const status = stopServerSimulation(tail)
+  if (!status) {
+    return NextResponse.json({ error: `No simulation running for ${tail.toUpperCase()}` }, { status: 404 })
+  }
+  return NextResponse.json(status)
+}
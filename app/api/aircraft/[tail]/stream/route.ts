@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { formatStreamEvent, getAircraftFeed, isValidTail } from '@/lib/telemetry/feed'
+
+export const dynamic = 'force-dynamic'
+
+// Browsers drop idle connections; a comment line every so often keeps it open
+const KEEP_ALIVE_MS = 15_000
+
+// Live telemetry for one aircraft as Server-Sent Events:
+//   event: status | snapshot | prediction | alert, data: JSON, id: increasing
+// A reconnecting EventSource sends Last-Event-ID and gets the events it
+// missed; new clients (or ones too far behind) get the current state first.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ tail: string }> }) {
+  const { tail } = await params
+  if (!isValidTail(tail)) {
+    return NextResponse.json({ error: `Invalid tail number: ${tail}` }, { status: 400 })
+  }
+
+  const header = request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId')
+  const lastEventId = header !== null && /^\d+$/.test(header) ? Number(header) : undefined
+  const feed = getAircraftFeed(tail)
+  const encoder = new TextEncoder()
+  let close = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text))
+        } catch {
+          close()
+        }
+      }
+      write('retry: 3000\n\n')
+      const unsubscribe = feed.subscribe((event) => write(formatStreamEvent(event)), lastEventId)
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_MS)
+      close = () => {
+        unsubscribe()
+        clearInterval(keepAlive)
+      }
+      request.signal.addEventListener('abort', () => close())
+    },
+    cancel() {
+      close()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
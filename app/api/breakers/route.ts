@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+import { listCircuitBreakers } from '@/lib/prediction/resilience'
+
+export const dynamic = 'force-dynamic'
+
+// Circuit breaker state for every model endpoint used since the server started
+export async function GET() {
+  return NextResponse.json({ breakers: listCircuitBreakers() })
+}
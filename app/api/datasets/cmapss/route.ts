@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loadCmapssTrajectories } from '@/lib/prediction/datasets'
+
+// C-MAPSS units for the dashboard's replay mode
+//   GET ?split=train|test            -> { split, units: [{ unit, cycles }] }
+//   GET ?split=train|test&unit=3     -> { split, unit, cycles: [{ cycle, features, rul }] }
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const split = params.get('split') ?? 'train'
+  if (split !== 'train' && split !== 'test') {
+    return NextResponse.json({ error: `Unknown split: ${split}` }, { status: 400 })
+  }
+
+  const trajectories = await loadCmapssTrajectories(split)
+  const unitParam = params.get('unit')
+  if (unitParam === null) {
+    return NextResponse.json({
+      split,
+      units: Array.from(trajectories, ([unit, cycles]) => ({ unit, cycles: cycles.length })),
+    })
+  }
+
+  const unit = Number(unitParam)
+  const cycles = trajectories.get(unit)
+  if (!cycles) {
+    return NextResponse.json({ error: `No ${split} unit ${unitParam}` }, { status: 404 })
+  }
+  return NextResponse.json({ split, unit, cycles })
+}
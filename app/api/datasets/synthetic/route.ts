@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loadSyntheticUnits } from '@/lib/prediction/datasets'
+
+// Synthetic per-subsystem units for the dashboard's replay mode
+//   GET ?split=train|test            -> { split, units: [{ unit, cycles }] }
+//   GET ?split=train|test&unit=3     -> { split, unit, rows: [{ cycle, rul, failure, sensors }] }
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const split = params.get('split') ?? 'train'
+  if (split !== 'train' && split !== 'test') {
+    return NextResponse.json({ error: `Unknown split: ${split}` }, { status: 400 })
+  }
+
+  const units = await loadSyntheticUnits(split)
+  const unitParam = params.get('unit')
+  if (unitParam === null) {
+    return NextResponse.json({
+      split,
+      units: Array.from(units, ([unit, rows]) => ({ unit, cycles: rows.length })),
+    })
+  }
+
+  const unit = Number(unitParam)
+  const rows = units.get(unit)
+  if (!rows) {
+    return NextResponse.json({ error: `No ${split} unit ${unitParam}` }, { status: 404 })
+  }
+  return NextResponse.json({ split, unit, rows })
+}
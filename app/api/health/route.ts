@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server'
+
+export const dynamic = 'force-dynamic'
+
+// Liveness: answers as long as the process is serving requests
+export async function GET() {
+  return NextResponse.json({
+    status: 'ok',
+    uptime_s: Math.round(process.uptime()),
+    timestamp: new Date().toISOString(),
+  })
+}
@@ -0,0 +1,10 @@
+import { renderMetrics } from '@/lib/prediction/metrics'
+
+export const dynamic = 'force-dynamic'
+
+// Prometheus scrape target
+export async function GET() {
+  return new Response(renderMetrics(), {
+    headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+  })
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { describeModels } from '@/lib/prediction/models'
+import { resolveSessionRouting } from '@/lib/prediction/session'
+
+export const dynamic = 'force-dynamic'
+
+// Input shape, features, units, version and training data for every subsystem model
+export async function GET() {
+  return NextResponse.json({ models: describeModels() })
+}
+
+// Same listing as seen through a session's own model server
+export async function POST(request: NextRequest) {
+  // No body, invalid JSON or a non-object all mean the default routing
+  const body = await request.json().catch(() => ({}))
+  const session = resolveSessionRouting(typeof body === 'object' && body !== null ? body : {})
+  if (!session.ok) {
+    return NextResponse.json({ error: session.error }, { status: session.status })
+  }
+
+  return NextResponse.json({ models: describeModels(session.routing) })
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CORS_HEADERS, instrumented } from '@/lib/prediction/http'
+import { runBatch, type BatchItem } from '@/lib/prediction/predict'
+import { batchRequestSchema } from '@/lib/prediction/schemas'
+import { resolveSessionRouting } from '@/lib/prediction/session'
+
+// All subsystems in one round-trip:
+//   { engine: number[24], sequences: { hydraulic: number[50][3], ... } }
+// Items are predicted concurrently. Responds 200 when every item succeeded,
+// 207 when some failed, 422 when every input was invalid and 502 when none
+// of the valid ones could be predicted.
+
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  })
+}
+
+export const POST = instrumented('/api/predict/batch', async (request, log) => {
+  try {
+    const body = await request.json().catch(() => undefined)
+    if (body === undefined) {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400, headers: CORS_HEADERS }
+      )
+    }
+
+    const parsed = batchRequestSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid batch request',
+          issues: parsed.error.issues.map((issue) => ({
+            subsystem: '',
+            message: `${issue.path.join('.') || 'body'}: ${issue.message}`,
+          })),
+        },
+        { status: 422, headers: CORS_HEADERS }
+      )
+    }
+    const { engine, sequences = {} } = parsed.data
+
+    // Each item's tensor shape is checked inside runBatch so one bad
+    // sequence is reported as 'invalid' without failing the rest
+    const items: BatchItem[] = []
+    if (engine !== undefined) {
+      items.push({ subsystem: 'engine', sequence: engine })
+    }
+    for (const [subsystem, sequence] of Object.entries(sequences)) {
+      items.push({ subsystem, sequence })
+    }
+
+    const session = resolveSessionRouting(parsed.data)
+    if (!session.ok) {
+      log.warn('rejected API base URL', { error: session.error })
+      return NextResponse.json(
+        { error: session.error },
+        { status: session.status, headers: CORS_HEADERS }
+      )
+    }
+
+    const batch = await runBatch(items, session.routing, log)
+    log.info('batch predicted', {
+      subsystems: items.map((item) => item.subsystem),
+      succeeded: batch.succeeded,
+      failed: batch.failed,
+      latency_ms: batch.latency_ms,
+    })
+
+    const allInvalid = batch.results.every((item) => item.status === 'invalid')
+    const status = batch.failed === 0 ? 200 : batch.succeeded > 0 ? 207 : allInvalid ? 422 : 502
+    const cacheHits = batch.results.filter((item) => item.cached).length
+    return NextResponse.json(batch, {
+      status,
+      headers: { ...CORS_HEADERS, 'X-Cache-Hits': `${cacheHits}/${items.length}` },
+    })
+
+  } catch (error) {
+    log.error('batch prediction failed', { error })
+    return NextResponse.json(
+      { error: 'Failed to run batch prediction' },
+      { status: 500, headers: CORS_HEADERS }
+    )
+  }
+})
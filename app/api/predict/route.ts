@@ -1,97 +1,95 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-const LSTM_API_BASE = 'https://my-lstm-api-537563823214.us-central1.run.app'
+import { toErrorResponse } from '@/lib/prediction/errors'
+import { CORS_HEADERS, instrumented } from '@/lib/prediction/http'
+import { runPrediction } from '@/lib/prediction/predict'
+import { predictRequestSchema, validatePredictionInput } from '@/lib/prediction/schemas'
+import { resolveSessionRouting } from '@/lib/prediction/session'
+import type { PredictionInput } from '@/lib/prediction/types'
 
 // Handle CORS preflight requests
 export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, {
     status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    },
+    headers: CORS_HEADERS,
   })
 }
 
-export async function POST(request: NextRequest) {
+export const POST = instrumented('/api/predict', async (request, log) => {
   try {
-    const body = await request.json()
-    const { subsystem, sequence } = body
-
-    console.log(`🔍 API Route: Received request for ${subsystem} with ${Array.isArray(sequence) ? sequence.length : 'invalid'} ${subsystem === 'engine' ? 'features' : 'timesteps'}`)
-
-    if (!subsystem || !sequence) {
+    const body = await request.json().catch(() => undefined)
+    if (body === undefined) {
       return NextResponse.json(
-        { error: 'Missing subsystem or sequence' },
-        { status: 400 }
+        { error: 'Request body must be valid JSON' },
+        { status: 400, headers: CORS_HEADERS }
       )
     }
 
-    // Validate sequence length based on subsystem type
-    if (subsystem === 'engine') {
-      // Engine expects 24 features
-      if (!Array.isArray(sequence) || sequence.length !== 24) {
-        console.error(`❌ Engine prediction requires exactly 24 features, got ${sequence.length}`)
-        return NextResponse.json(
-          { error: `Engine prediction requires exactly 24 features, got ${sequence.length}` },
-          { status: 400 }
-        )
-      }
-    } else {
-      // Subsystems expect 50 timesteps
-      if (!Array.isArray(sequence) || sequence.length !== 50) {
-        console.error(`❌ ${subsystem} prediction requires exactly 50 timesteps, got ${sequence.length}`)
-        return NextResponse.json(
-          { error: `Sequence length must be 50` },
-          { status: 400 }
-        )
-      }
+    const parsed = predictRequestSchema.safeParse(body)
+    if (!parsed.success) {
+      // The body may be any JSON value here, null included
+      const named = typeof body === 'object' && body !== null && typeof body.subsystem === 'string'
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          issues: parsed.error.issues.map((issue) => ({
+            subsystem: named ? body.subsystem : '',
+            message: `${issue.path.join('.') || 'body'}: ${issue.message}`,
+          })),
+        },
+        { status: 422, headers: CORS_HEADERS }
+      )
     }
+    const { subsystem, sequence } = parsed.data
 
-    // All APIs expect { sequence: ... } format
-    const requestBody = { sequence }
+    log.debug('received', { subsystem, length: Array.isArray(sequence) ? sequence.length : undefined })
 
-    console.log(`🌐 API Route: Making request to ${LSTM_API_BASE}/predict/${subsystem}`)
-
-    // Make request to LSTM API
-    const response = await fetch(`${LSTM_API_BASE}/predict/${subsystem}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    })
+    // Check the tensor shape for this subsystem, down to each timestep and column
+    const issues = validatePredictionInput(subsystem, sequence)
+    if (issues) {
+      log.warn('invalid input', { subsystem, issues: issues.length, first_issue: issues[0].message })
+      return NextResponse.json(
+        { error: `Invalid ${subsystem} input`, issues },
+        { status: 422, headers: CORS_HEADERS }
+      )
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error(`❌ LSTM API Error: ${response.status} ${response.statusText} - ${errorText}`)
-      throw new Error(`API responded with ${response.status}: ${errorText}`)
+    // Optional per-session model server chosen in the dashboard
+    const session = resolveSessionRouting(parsed.data)
+    if (!session.ok) {
+      log.warn('rejected API base URL', { error: session.error })
+      return NextResponse.json(
+        { error: session.error },
+        { status: session.status, headers: CORS_HEADERS }
+      )
     }
 
-    const data = await response.json()
-    console.log(`✅ API Route: Successful response for ${subsystem}:`, data)
+    const result = await runPrediction(subsystem, sequence as PredictionInput, session.routing, log)
+    log.info('predicted', {
+      subsystem,
+      backend: result.backend,
+      target: session.routing.baseUrl,
+      cached: result.cached,
+      rul: result.prediction,
+    })
 
-    return NextResponse.json(data, {
+    return NextResponse.json(result, {
       headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        ...CORS_HEADERS,
+        'X-Cache': result.cached ? 'HIT' : 'MISS',
+        ...(result.cache_age_ms !== undefined && { Age: String(Math.floor(result.cache_age_ms / 1000)) }),
       },
     })
 
   } catch (error) {
-    console.error('Prediction API error:', error)
+    // Timeouts, open circuits and upstream HTTP errors each get their own status
+    const mapped = toErrorResponse(error, 'Failed to get prediction')
+    log.error('prediction failed', { status: mapped.status, code: mapped.body.code, error })
     return NextResponse.json(
-      { error: 'Failed to get prediction' },
+      mapped.body,
       { 
-        status: 500,
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type',
-        },
+        status: mapped.status,
+        headers: { ...CORS_HEADERS, ...mapped.headers },
       }
     )
   }
-} 
\ No newline at end of file
+})
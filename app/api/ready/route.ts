@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkReadiness } from '@/lib/prediction/readiness'
+import { resolveSessionRouting } from '@/lib/prediction/session'
+
+export const dynamic = 'force-dynamic'
+
+// Readiness of the server's configured model backends; 503 if any subsystem is down
+export async function GET() {
+  const report = await checkReadiness()
+  return NextResponse.json(report, { status: report.ready ? 200 : 503 })
+}
+
+// Same check against a session's own model server (the dashboard's Test button)
+export async function POST(request: NextRequest) {
+  // No body, invalid JSON or a non-object all mean the default routing
+  const body = await request.json().catch(() => ({}))
+  const session = resolveSessionRouting(typeof body === 'object' && body !== null ? body : {})
+  if (!session.ok) {
+    return NextResponse.json({ error: session.error }, { status: session.status })
+  }
+
+  const report = await checkReadiness(session.routing)
+  return NextResponse.json(report, { status: report.ready ? 200 : 503 })
+}
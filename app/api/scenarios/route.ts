@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server'
+import { listScenarios } from '@/lib/simulation/scenario-files'
+
+export const dynamic = 'force-dynamic'
+
+// Shared scenario files for the dashboard's scenario picker
+//   GET -> { scenarios: [{ id, file, scenario }], errors: [{ file, error }] }
+export async function GET() {
+  return NextResponse.json(await listScenarios())
+}
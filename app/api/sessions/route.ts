@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MAX_SESSION_BYTES, listSessions, readSession, saveSession } from '@/lib/simulation/session-files'
+import { SessionError, summarizeSession, validateSession } from '@/lib/simulation/sessions'
+
+export const dynamic = 'force-dynamic'
+
+// Recorded simulation sessions
+//   GET                     -> { sessions: [{ id, started_at, aircraft, profile, seed, duration_s, ... }] }
+//   GET ?id=...             -> the session bundle
+//   GET ?id=...&download=1  -> the bundle as a file download
+//   POST <bundle>           -> { session: summary }, 413 above MAX_SESSION_BYTES
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const id = params.get('id')
+  if (id === null) {
+    return NextResponse.json({ sessions: await listSessions() })
+  }
+
+  let session
+  try {
+    session = await readSession(id)
+  } catch (error) {
+    if (!(error instanceof SessionError)) throw error
+    return NextResponse.json({ error: error.message }, { status: 400 })
+  }
+  if (!session) {
+    return NextResponse.json({ error: `No session ${id}` }, { status: 404 })
+  }
+  return NextResponse.json(session, {
+    headers: params.get('download') ? { 'Content-Disposition': `attachment; filename="${session.id}.json"` } : undefined,
+  })
+}
+
+function tooLarge(): NextResponse {
+  return NextResponse.json(
+    { error: `Session bundles are limited to ${MAX_SESSION_BYTES / (1024 * 1024)} MB` },
+    { status: 413 }
+  )
+}
+
+// The body as text, or undefined as soon as it grows past the limit, so an
+// oversized upload is never held in memory or written to disk
+async function readBody(request: NextRequest, limit: number): Promise<string | undefined> {
+  const reader = request.body?.getReader()
+  if (!reader) return ''
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > limit) {
+      await reader.cancel()
+      return undefined
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+export async function POST(request: NextRequest) {
+  if (Number(request.headers.get('content-length') ?? 0) > MAX_SESSION_BYTES) return tooLarge()
+  const text = await readBody(request, MAX_SESSION_BYTES)
+  if (text === undefined) return tooLarge()
+
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 })
+  }
+
+  let session
+  try {
+    session = validateSession(body)
+  } catch (error) {
+    if (!(error instanceof SessionError)) throw error
+    return NextResponse.json({ error: `Invalid session: ${error.message}` }, { status: 422 })
+  }
+  await saveSession(session)
+  return NextResponse.json({ session: summarizeSession(session) }, { status: 201 })
+}
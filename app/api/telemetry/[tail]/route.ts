@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isValidTail } from '@/lib/telemetry/feed'
+import { IngestError, endIngest, ingestTelemetry, telemetryBatchSchema } from '@/lib/telemetry/ingest'
+import { AircraftBusyError } from '@/lib/telemetry/simulation'
+
+export const dynamic = 'force-dynamic'
+
+type Params = { params: Promise<{ tail: string }> }
+
+async function tailParam({ params }: Params): Promise<string | NextResponse> {
+  const { tail } = await params
+  return isValidTail(tail) ? tail : NextResponse.json({ error: `Invalid tail number: ${tail}` }, { status: 400 })
+}
+
+// Sensor readings from an external feed, watched over /api/aircraft/[tail]/stream
+//   POST { readings: [{ timestamp, phase?, speed?, altitude?, engine?, subsystems? }] }
+//        -> { accepted, stale, status }, 409 while the server simulates the aircraft
+//   DELETE -> final status, 404 when nothing is being ingested
+export async function POST(request: NextRequest, context: Params) {
+  const tail = await tailParam(context)
+  if (tail instanceof NextResponse) return tail
+
+  const body = await request.json().catch(() => undefined)
+  if (body === undefined) {
+    return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 })
+  }
+  const parsed = telemetryBatchSchema.safeParse(body)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+    return NextResponse.json({ error: 'Invalid telemetry batch', issues }, { status: 422 })
+  }
+
+  try {
+    return NextResponse.json(ingestTelemetry(tail, parsed.data.readings))
+  } catch (error) {
+    if (error instanceof IngestError) {
+      return NextResponse.json({ error: error.message, missing: error.missing }, { status: 422 })
+    }
+    if (!(error instanceof AircraftBusyError)) throw error
+    return NextResponse.json({ error: error.message }, { status: 409 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: Params) {
+  const tail = await tailParam(context)
+  if (tail instanceof NextResponse) return tail
+  const status = endIngest(tail)
+  if (!status) {
+    return NextResponse.json({ error: `No telemetry being ingested for ${tail.toUpperCase()}` }, { status: 404 })
+  }
+  return NextResponse.json(status)
+}
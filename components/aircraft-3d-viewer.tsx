@@ -5,16 +5,7 @@ import { Canvas, useFrame, useLoader } from '@react-three/fiber'
 import { OrbitControls, PerspectiveCamera, Environment } from '@react-three/drei'
 import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js'
 import * as THREE from 'three'
-
-interface SubsystemPrediction {
-  subsystem: string
-  rul: number
-  risk_level: 'safe' | 'warning' | 'danger'
-  status: string
-  failure_probability?: number
-  cycle?: number
-  sensor_data?: any
-}
+import type { SubsystemPrediction } from '@/lib/telemetry/store'
 
 interface AircraftViewerProps {
   alertLevel: 'safe' | 'warning' | 'danger'
@@ -100,6 +91,21 @@ function SubsystemGlow({ position, subsystem, isSimulating, subsystemPredictions
     return null
   }
   
+  // No model value at all: grey wireframe marker instead of a risk colour
+  if (prediction?.provenance === 'unavailable') {
+    return (
+      <mesh position={position}>
+        <sphereGeometry args={[0.4, 8, 8]} />
+        <meshBasicMaterial 
+          color="#888888" 
+          transparent 
+          opacity={0.6}
+          wireframe
+        />
+      </mesh>
+    )
+  }
+  
   // If no prediction data or safe, show a small debug indicator
   if (!prediction || prediction.risk_level === 'safe') {
     return (
@@ -119,6 +125,8 @@ function SubsystemGlow({ position, subsystem, isSimulating, subsystemPredictions
   const glowSize = prediction.risk_level === 'danger' ? 0.8 : 0.6
   const glowOpacity = prediction.risk_level === 'danger' ? 0.9 : 0.7
   const glowColor = prediction.risk_level === 'danger' ? '#ff0000' : '#ff8800'
+  // Heuristic/cached values glow as a wireframe so they never look like live model output
+  const isModelOutput = prediction.provenance === 'model'
 
   return (
     <mesh ref={meshRef} position={position}>
@@ -126,7 +134,8 @@ function SubsystemGlow({ position, subsystem, isSimulating, subsystemPredictions
       <meshBasicMaterial 
         color={glowColor} 
         transparent 
-        opacity={glowOpacity}
+        opacity={isModelOutput ? glowOpacity : glowOpacity * 0.6}
+        wireframe={!isModelOutput}
         side={THREE.DoubleSide}
       />
     </mesh>
@@ -267,7 +276,11 @@ function AircraftModel({ alertLevel, isSimulating, currentSpeed, rulValue, subsy
       // Apply warning/danger colors to the parts with enhanced visibility
       targetParts.forEach(part => {
         if (part.material instanceof THREE.MeshStandardMaterial) {
-          if (prediction.risk_level === 'danger') {
+          if (prediction.provenance === 'unavailable') {
+            part.material.color.setHex(0xb0b0b0) // Muted gray - no data
+            part.material.emissive.setHex(0x000000)
+            part.material.emissiveIntensity = 0
+          } else if (prediction.risk_level === 'danger') {
             part.material.color.setHex(0xff0000) // Bright red
             part.material.emissive.setHex(0x660000) // Stronger red glow
             part.material.emissiveIntensity = 0.3 // Add emissive intensity
@@ -5,18 +5,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Aircraft3DViewer } from "./aircraft-3d-viewer"
 import { PredictionPanel } from "./prediction-panel"
+import { isDegraded } from "@/lib/prediction/provenance"
+import { PHASE_LABELS } from "@/lib/simulation/profiles"
+import { useTelemetry } from "@/hooks/use-telemetry"
 
 export function AircraftVisualization() {
-  // State to track simulation data from PredictionPanel
-  const [simulationData, setSimulationData] = useState({
-    isSimulating: false,
-    isPaused: false,
-    alertLevel: 'safe' as 'safe' | 'warning' | 'danger',
-    currentSpeed: 0,
-    simulationTime: 0,
-    rulValue: undefined as number | undefined,
-    subsystemPredictions: undefined as any[] | undefined
-  })
+  // Simulation state published by PredictionPanel
+  const simulation = useTelemetry(state => state.simulation)
+  const alertLevel = useTelemetry(state => state.alertLevel)
+  const predictions = useTelemetry(state => state.predictions)
 
   // State for client-side timestamp to avoid hydration issues
   const [currentTime, setCurrentTime] = useState<string>('')
@@ -35,19 +32,6 @@ export function AircraftVisualization() {
     return () => clearInterval(interval)
   }, [])
 
-  // Listen for simulation events from PredictionPanel
-  useEffect(() => {
-    const handleSimulationUpdate = (event: CustomEvent) => {
-      setSimulationData(event.detail)
-    }
-
-    window.addEventListener('simulationUpdate', handleSimulationUpdate as EventListener)
-    
-    return () => {
-      window.removeEventListener('simulationUpdate', handleSimulationUpdate as EventListener)
-    }
-  }, [])
-
   return (
     <div className="flex-1 p-6 bg-white">
       <div className="mb-6">
@@ -56,23 +40,28 @@ export function AircraftVisualization() {
           <Badge 
             variant="outline" 
             className={`${
-              simulationData.alertLevel === 'danger' ? 'bg-red-50 text-red-700 border-red-200 animate-pulse' :
-              simulationData.alertLevel === 'warning' ? 'bg-yellow-50 text-yellow-700 border-yellow-200' :
+              alertLevel === 'danger' ? 'bg-red-50 text-red-700 border-red-200 animate-pulse' :
+              alertLevel === 'warning' ? 'bg-yellow-50 text-yellow-700 border-yellow-200' :
               'bg-green-50 text-green-700 border-green-200'
             }`}
           >
-            {simulationData.isSimulating ? (
-              simulationData.isPaused ? '⏸️ SIMULATION PAUSED' :
-              simulationData.alertLevel === 'danger' ? '🔴 ENGINE CRITICAL' :
-              simulationData.alertLevel === 'warning' ? '🟡 ENGINE CAUTION' :
-              '✈️ TAKEOFF IN PROGRESS'
+            {simulation.isSimulating ? (
+              simulation.isPaused ? '⏸️ SIMULATION PAUSED' :
+              alertLevel === 'danger' ? '🔴 ENGINE CRITICAL' :
+              alertLevel === 'warning' ? '🟡 ENGINE CAUTION' :
+              `✈️ ${simulation.phase ? PHASE_LABELS[simulation.phase].toUpperCase() : 'FLIGHT'} IN PROGRESS`
             ) : (
               'Flight Ready'
             )}
           </Badge>
+          {simulation.isSimulating && predictions.subsystems.some(p => isDegraded(p.provenance)) && (
+            <Badge variant="outline" className="bg-amber-50 text-amber-900 border-amber-400 border-dashed">
+              ⚠️ DEGRADED MODE - not all values are model output
+            </Badge>
+          )}
           <span className="text-sm text-gray-500">
-            {simulationData.isSimulating ? 
-              `Takeoff Simulation: ${simulationData.simulationTime}s${simulationData.isPaused ? ' (PAUSED)' : ''}` : 
+            {simulation.isSimulating ? 
+              `${simulation.profileName}: ${simulation.time}s${simulation.isPaused ? ' (PAUSED)' : ''}` : 
               isMounted ? `Last Updated: ${currentTime}` : 'Initializing...'
             }
           </span>
@@ -84,10 +73,15 @@ export function AircraftVisualization() {
         <CardHeader>
           <CardTitle className="text-center flex items-center justify-center gap-2">
             <span>Commercial Aircraft - Flight Operator View</span>
-            {simulationData.isSimulating && (
-              <Badge variant={simulationData.alertLevel === 'danger' ? 'destructive' : 
-                             simulationData.alertLevel === 'warning' ? 'secondary' : 'default'}>
-                {simulationData.currentSpeed.toFixed(0)} kts
+            {simulation.isSimulating && simulation.phase && (
+              <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+                {PHASE_LABELS[simulation.phase]} • {simulation.altitude.toFixed(0)} ft
+              </Badge>
+            )}
+            {simulation.isSimulating && (
+              <Badge variant={alertLevel === 'danger' ? 'destructive' : 
+                             alertLevel === 'warning' ? 'secondary' : 'default'}>
+                {simulation.speed.toFixed(0)} kts
               </Badge>
             )}
           </CardTitle>
@@ -95,49 +89,50 @@ export function AircraftVisualization() {
         <CardContent className="p-6">
           <div className="relative">
             <Aircraft3DViewer
-              alertLevel={simulationData.alertLevel}
-              isSimulating={simulationData.isSimulating}
-              currentSpeed={simulationData.currentSpeed}
-              simulationTime={simulationData.simulationTime}
-              rulValue={simulationData.rulValue}
-              subsystemPredictions={simulationData.subsystemPredictions}
+              alertLevel={alertLevel}
+              isSimulating={simulation.isSimulating}
+              currentSpeed={simulation.speed}
+              simulationTime={simulation.time}
+              rulValue={predictions.engine?.prediction}
+              subsystemPredictions={predictions.subsystems}
             />
           </div>
 
           {/* Flight Status Information */}
           <div className="mt-6 grid grid-cols-1 md:grid-cols-4 gap-4">
             <Card className={`${
-              simulationData.alertLevel === 'danger' ? 'border-red-200 bg-red-50' :
-              simulationData.alertLevel === 'warning' ? 'border-yellow-200 bg-yellow-50' :
+              alertLevel === 'danger' ? 'border-red-200 bg-red-50' :
+              alertLevel === 'warning' ? 'border-yellow-200 bg-yellow-50' :
               'border-green-200 bg-green-50'
             }`}>
               <CardContent className="p-4 text-center">
                 <div className={`text-2xl font-bold ${
-                  simulationData.alertLevel === 'danger' ? 'text-red-700' :
-                  simulationData.alertLevel === 'warning' ? 'text-yellow-700' :
+                  alertLevel === 'danger' ? 'text-red-700' :
+                  alertLevel === 'warning' ? 'text-yellow-700' :
                   'text-green-700'
                 }`}>
-                  {simulationData.isSimulating ? 
-                    simulationData.currentSpeed.toFixed(0) : 
+                  {simulation.isSimulating ? 
+                    simulation.speed.toFixed(0) : 
                     '0'
                   }
                 </div>
                 <div className={`text-sm ${
-                  simulationData.alertLevel === 'danger' ? 'text-red-600' :
-                  simulationData.alertLevel === 'warning' ? 'text-yellow-600' :
+                  alertLevel === 'danger' ? 'text-red-600' :
+                  alertLevel === 'warning' ? 'text-yellow-600' :
                   'text-green-600'
                 }`}>
                   Speed (knots)
                 </div>
                 <div className={`text-xs mt-1 ${
-                  simulationData.alertLevel === 'danger' ? 'text-red-500' :
-                  simulationData.alertLevel === 'warning' ? 'text-yellow-500' :
+                  alertLevel === 'danger' ? 'text-red-500' :
+                  alertLevel === 'warning' ? 'text-yellow-500' :
                   'text-green-500'
                 }`}>
-                  {simulationData.isSimulating ? 
-                    (simulationData.currentSpeed < 140 ? 'Pre-V1' : 
-                     simulationData.currentSpeed < 175 ? 'V1 Critical' : 'Post-V1') :
-                    'Ground'
+                  {!simulation.isSimulating ? 'Ground' :
+                   simulation.phase !== 'takeoff' ?
+                    `${simulation.phase ? PHASE_LABELS[simulation.phase] : 'Flight'} • ${simulation.altitude.toFixed(0)} ft` :
+                    (simulation.speed < 140 ? 'Pre-V1' : 
+                     simulation.speed < 175 ? 'V1 Critical' : 'Post-V1')
                   }
                 </div>
               </CardContent>
@@ -146,11 +141,11 @@ export function AircraftVisualization() {
             <Card className="border-blue-200 bg-blue-50">
               <CardContent className="p-4 text-center">
                 <div className="text-2xl font-bold text-blue-700">
-                  {simulationData.isSimulating ? simulationData.simulationTime : '0'}
+                  {simulation.isSimulating ? simulation.time : '0'}
                 </div>
                 <div className="text-sm text-blue-600">Simulation Time</div>
                 <div className="text-xs text-blue-500 mt-1">
-                  {simulationData.isSimulating ? 'seconds' : 'Ready to start'}
+                  {simulation.isSimulating ? 'seconds' : 'Ready to start'}
                 </div>
               </CardContent>
             </Card>
@@ -158,7 +153,7 @@ export function AircraftVisualization() {
             <Card className="border-purple-200 bg-purple-50">
               <CardContent className="p-4 text-center">
                 <div className="text-2xl font-bold text-purple-700">
-                  {simulationData.rulValue ? simulationData.rulValue.toFixed(0) : '--'}
+                  {predictions.engine ? predictions.engine.prediction.toFixed(0) : '--'}
                 </div>
                 <div className="text-sm text-purple-600">RUL Cycles</div>
                 <div className="text-xs text-purple-500 mt-1">Remaining Useful Life</div>
@@ -168,17 +163,17 @@ export function AircraftVisualization() {
             <Card className="border-gray-200 bg-gray-50">
               <CardContent className="p-4 text-center">
                 <div className={`text-2xl font-bold ${
-                  simulationData.alertLevel === 'danger' ? 'text-red-700' :
-                  simulationData.alertLevel === 'warning' ? 'text-yellow-700' :
+                  alertLevel === 'danger' ? 'text-red-700' :
+                  alertLevel === 'warning' ? 'text-yellow-700' :
                   'text-green-700'
                 }`}>
-                  {simulationData.alertLevel === 'danger' ? 'CRITICAL' :
-                   simulationData.alertLevel === 'warning' ? 'CAUTION' :
+                  {alertLevel === 'danger' ? 'CRITICAL' :
+                   alertLevel === 'warning' ? 'CAUTION' :
                    'NORMAL'}
                 </div>
                 <div className="text-sm text-gray-600">Engine Status</div>
                 <div className="text-xs text-gray-500 mt-1">
-                  {simulationData.isSimulating ? 'Live Monitoring' : 'Standby'}
+                  {simulation.isSimulating ? 'Live Monitoring' : 'Standby'}
                 </div>
               </CardContent>
             </Card>
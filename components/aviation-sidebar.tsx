@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from "react"
+import { useMemo } from "react"
 import { AlertTriangle, Bell, Plane, Settings, Wrench } from "lucide-react"
 import {
   Sidebar,
@@ -15,6 +15,10 @@ import {
 } from "@/components/ui/sidebar"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ProvenanceBadge } from "@/components/provenance-badge"
+import { isDegraded } from "@/lib/prediction/provenance"
+import { alertLevelFor } from "@/lib/prediction/alerts"
+import { useTelemetry } from "@/hooks/use-telemetry"
 
 interface Alert {
   id: number
@@ -25,112 +29,89 @@ interface Alert {
   flightImpact: string
 }
 
-interface SubsystemPrediction {
-  subsystem: string
-  rul: number
-  risk_level: 'safe' | 'warning' | 'danger'
-  status: string
-  cycle?: number
-  timestamp?: number
-}
-
-interface SimulationData {
-  isSimulating: boolean
-  alertLevel: 'safe' | 'warning' | 'danger'
-  currentSpeed: number
-  simulationTime: number
-  rulValue?: number
-  subsystemPredictions?: SubsystemPrediction[]
-}
-
 export function AviationSidebar() {
-  const [alerts, setAlerts] = useState<Alert[]>([])
-  const [simulationData, setSimulationData] = useState<SimulationData>({
-    isSimulating: false,
-    alertLevel: 'safe',
-    currentSpeed: 0,
-    simulationTime: 0
-  })
+  // Simulation state published by PredictionPanel
+  const simulation = useTelemetry(state => state.simulation)
+  const predictions = useTelemetry(state => state.predictions)
+  const rulValue = predictions.engine?.prediction
+  const engineProvenance = predictions.engine?.provenance
 
-  // Listen for simulation events
-  useEffect(() => {
-    const handleSimulationUpdate = (event: CustomEvent) => {
-      const newData = event.detail as SimulationData
-      setSimulationData(newData)
-      
-      // Generate alerts based on simulation state
-      if (newData.isSimulating) {
-        const newAlerts: Alert[] = []
-        
-        // Engine RUL alerts
-        if (newData.rulValue !== undefined) {
-          if (newData.rulValue < 30) {
-            newAlerts.push({
-              id: Date.now() + 1,
-              component: "🔥 Engine Critical",
-              risk: "critical",
-              message: `Engine RUL: ${newData.rulValue.toFixed(0)} cycles - IMMEDIATE ACTION REQUIRED`,
-              timestamp: `${newData.simulationTime}s`,
-              flightImpact: "⚠️ ABORT TAKEOFF"
-            })
-          } else if (newData.rulValue < 80) {
-            newAlerts.push({
-              id: Date.now() + 1,
-              component: "⚡ Engine Warning",
-              risk: "moderate",
-              message: `Engine RUL: ${newData.rulValue.toFixed(0)} cycles - Enhanced monitoring required`,
-              timestamp: `${newData.simulationTime}s`,
-              flightImpact: "🔍 Monitor takeoff closely"
-            })
-          }
-        }
-        
-        // Subsystem alerts
-        if (newData.subsystemPredictions) {
-          newData.subsystemPredictions.forEach((subsystem, index) => {
-            const subsystemNames = {
-              hydraulic: "💧 Hydraulic System",
-              electrical: "⚡ Electrical System", 
-              control_surface: "🛩️ Control Surfaces",
-              cabin: "🏠 Cabin System",
-              altimeter: "📊 Altimeter"
-            }
-            
-            if (subsystem.rul < 30) {
-              newAlerts.push({
-                id: Date.now() + index + 10,
-                component: subsystemNames[subsystem.subsystem as keyof typeof subsystemNames] || subsystem.subsystem,
-                risk: "critical",
-                message: `${subsystem.subsystem.toUpperCase()} RUL: ${subsystem.rul.toFixed(0)} cycles - CRITICAL FAILURE RISK`,
-                timestamp: `${newData.simulationTime}s`,
-                flightImpact: "⚠️ SYSTEM FAILURE IMMINENT"
-              })
-            } else if (subsystem.rul < 80) {
-              newAlerts.push({
-                id: Date.now() + index + 10,
-                component: subsystemNames[subsystem.subsystem as keyof typeof subsystemNames] || subsystem.subsystem,
-                risk: "moderate",
-                message: `${subsystem.subsystem.toUpperCase()} RUL: ${subsystem.rul.toFixed(0)} cycles - Degraded performance`,
-                timestamp: `${newData.simulationTime}s`,
-                flightImpact: "🔧 Schedule maintenance"
-              })
-            }
-          })
-        }
-        
-        setAlerts(newAlerts)
-      } else if (!newData.isSimulating) {
-        // Clear alerts when simulation stops
-        setAlerts([])
+  // Alerts for the latest predictions; cleared when the simulation stops
+  const alerts = useMemo<Alert[]>(() => {
+    if (!simulation.isSimulating) return []
+    const newAlerts: Alert[] = []
+    
+    // Engine RUL alerts
+    if (rulValue !== undefined) {
+      const level = alertLevelFor(rulValue)
+      if (level === 'danger') {
+        newAlerts.push({
+          id: Date.now() + 1,
+          component: "🔥 Engine Critical",
+          risk: "critical",
+          message: `Engine RUL: ${rulValue.toFixed(0)} cycles - IMMEDIATE ACTION REQUIRED`,
+          timestamp: `${simulation.time}s`,
+          flightImpact: "⚠️ ABORT TAKEOFF"
+        })
+      } else if (level === 'warning') {
+        newAlerts.push({
+          id: Date.now() + 1,
+          component: "⚡ Engine Warning",
+          risk: "moderate",
+          message: `Engine RUL: ${rulValue.toFixed(0)} cycles - Enhanced monitoring required`,
+          timestamp: `${simulation.time}s`,
+          flightImpact: "🔍 Monitor takeoff closely"
+        })
       }
     }
+    
+    // Subsystem alerts
+    predictions.subsystems.forEach((subsystem, index) => {
+      const subsystemNames = {
+        hydraulic: "💧 Hydraulic System",
+        electrical: "⚡ Electrical System", 
+        control_surface: "🛩️ Control Surfaces",
+        cabin: "🏠 Cabin System",
+        altimeter: "📊 Altimeter"
+      }
+      
+      const component = subsystemNames[subsystem.subsystem]
+      // Values that did not come from the model are flagged in the alert text
+      const source = subsystem.provenance === 'fallback-heuristic' ? ' [HEURISTIC - not model output]' :
+                     subsystem.provenance === 'cached' ? ' [cached]' : ''
 
-    window.addEventListener('simulationUpdate', handleSimulationUpdate as EventListener)
+      if (subsystem.rul === null) {
+        newAlerts.push({
+          id: Date.now() + index + 10,
+          component,
+          risk: "moderate",
+          message: `${subsystem.subsystem.toUpperCase()} prediction unavailable - model not responding`,
+          timestamp: `${simulation.time}s`,
+          flightImpact: "📡 No RUL data"
+        })
+      } else if (alertLevelFor(subsystem.rul) === 'danger') {
+        newAlerts.push({
+          id: Date.now() + index + 10,
+          component,
+          risk: "critical",
+          message: `${subsystem.subsystem.toUpperCase()} RUL: ${subsystem.rul.toFixed(0)} cycles - CRITICAL FAILURE RISK${source}`,
+          timestamp: `${simulation.time}s`,
+          flightImpact: "⚠️ SYSTEM FAILURE IMMINENT"
+        })
+      } else if (alertLevelFor(subsystem.rul) === 'warning') {
+        newAlerts.push({
+          id: Date.now() + index + 10,
+          component,
+          risk: "moderate",
+          message: `${subsystem.subsystem.toUpperCase()} RUL: ${subsystem.rul.toFixed(0)} cycles - Degraded performance${source}`,
+          timestamp: `${simulation.time}s`,
+          flightImpact: "🔧 Schedule maintenance"
+        })
+      }
+    })
     
-    return () => {
-      window.removeEventListener('simulationUpdate', handleSimulationUpdate as EventListener)
-    }
-  }, [])
+    return newAlerts
+  }, [simulation.isSimulating, simulation.time, rulValue, predictions.subsystems])
 
   const criticalAlerts = alerts.filter(alert => alert.risk === 'critical')
   const moderateAlerts = alerts.filter(alert => alert.risk === 'moderate')
@@ -142,12 +123,22 @@ export function AviationSidebar() {
           <Plane className="h-6 w-6 text-blue-600" />
           <div>
             <h2 className="text-lg font-semibold text-gray-900">Flight Alert System</h2>
-            <p className="text-sm text-gray-500">Aircraft ID: N747BA</p>
+            <p className="text-sm text-gray-500">Aircraft ID: {simulation.aircraftId}</p>
           </div>
         </div>
       </SidebarHeader>
 
       <SidebarContent className="p-4 space-y-4">
+        {/* Degraded mode - some values are not model output */}
+        {simulation.isSimulating && predictions.subsystems?.some(p => isDegraded(p.provenance)) && (
+          <div className="p-3 rounded-lg border-2 border-amber-400 bg-amber-50">
+            <p className="text-sm font-semibold text-amber-900">⚠️ Degraded Mode</p>
+            <p className="text-xs text-amber-800">
+              Some subsystems are not backed by model predictions
+            </p>
+          </div>
+        )}
+
         {/* Show status when no alerts */}
         {alerts.length === 0 && (
           <div className="text-center py-8">
@@ -155,14 +146,14 @@ export function AviationSidebar() {
               <Plane className="h-8 w-8 mx-auto" />
             </div>
             <p className="text-sm text-gray-600">
-              {simulationData.isSimulating ? 
+              {simulation.isSimulating ? 
                 "Monitoring engine health..." : 
                 "All systems normal"
               }
             </p>
-            {simulationData.isSimulating && (
+            {simulation.isSimulating && (
               <p className="text-xs text-gray-500 mt-1">
-                Simulation: {simulationData.simulationTime}s | Speed: {simulationData.currentSpeed.toFixed(0)} kts
+                Simulation: {simulation.time}s | Speed: {simulation.speed.toFixed(0)} kts
               </p>
             )}
           </div>
@@ -235,22 +226,25 @@ export function AviationSidebar() {
               <div className="p-3 border rounded-lg bg-blue-50">
                 <div className="flex items-center justify-between mb-2">
                   <span className="text-sm font-medium text-blue-900">🔧 Engine System</span>
-                  <Badge variant={simulationData.rulValue !== undefined ? (simulationData.rulValue < 30 ? "destructive" : simulationData.rulValue < 80 ? "secondary" : "default") : "outline"}>
-                    {simulationData.rulValue !== undefined ? 
-                      `${simulationData.rulValue.toFixed(0)} cycles` : 
+                  {engineProvenance && engineProvenance !== 'model' && (
+                    <ProvenanceBadge provenance={engineProvenance} />
+                  )}
+                  <Badge variant={rulValue !== undefined ? (alertLevelFor(rulValue) === 'danger' ? "destructive" : alertLevelFor(rulValue) === 'warning' ? "secondary" : "default") : "outline"}>
+                    {rulValue !== undefined ? 
+                      `${rulValue.toFixed(0)} cycles` : 
                       "Monitoring..."}
                   </Badge>
                 </div>
                 <p className="text-xs text-blue-700">
-                  Remaining Useful Life: {simulationData.rulValue !== undefined ? 
-                    `${simulationData.rulValue.toFixed(0)} cycles (~${(simulationData.rulValue * 1.5).toFixed(0)} flight hours)` : 
+                  Remaining Useful Life: {rulValue !== undefined ? 
+                    `${rulValue.toFixed(0)} cycles (~${(rulValue * 1.5).toFixed(0)} flight hours)` : 
                     "Awaiting prediction"}
                 </p>
               </div>
               
               {/* Subsystem RUL Display */}
-              {simulationData.subsystemPredictions && simulationData.subsystemPredictions.length > 0 ? (
-                simulationData.subsystemPredictions.map((subsystem) => {
+              {predictions.subsystems && predictions.subsystems.length > 0 ? (
+                predictions.subsystems.map((subsystem) => {
                   const subsystemInfo = {
                     hydraulic: { icon: "💧", name: "Hydraulic System", color: "indigo" },
                     electrical: { icon: "⚡", name: "Electrical System", color: "yellow" },
@@ -262,20 +256,28 @@ export function AviationSidebar() {
                   const info = subsystemInfo[subsystem.subsystem as keyof typeof subsystemInfo] || 
                               { icon: "⚙️", name: subsystem.subsystem, color: "gray" }
                   
+                  const rulText = subsystem.rul !== null ? `${subsystem.rul} cycles` : 'No data'
+                  
                   return (
-                    <div key={subsystem.subsystem} className={`p-3 border rounded-lg bg-${info.color}-50`}>
+                    <div
+                      key={subsystem.subsystem}
+                      className={`p-3 border rounded-lg bg-${info.color}-50 ${subsystem.provenance !== 'model' ? 'border-dashed border-amber-400' : ''}`}
+                    >
                       <div className="flex items-center justify-between mb-2">
                         <span className={`text-sm font-medium text-${info.color}-900`}>
                           {info.icon} {info.name}
                         </span>
                         <Badge variant={subsystem.risk_level === 'danger' ? "destructive" : 
                                        subsystem.risk_level === 'warning' ? "secondary" : "default"}>
-                          {subsystem.rul} cycles
+                          {rulText}
                         </Badge>
                       </div>
                       <p className={`text-xs text-${info.color}-700`}>
-                        Status: {subsystem.status} (RUL: {subsystem.rul} cycles)
+                        Status: {subsystem.status} (RUL: {rulText})
                       </p>
+                      <div className="mt-1">
+                        <ProvenanceBadge provenance={subsystem.provenance} modelVersion={subsystem.model_version} />
+                      </div>
                       {subsystem.cycle && (
                         <p className={`text-xs text-${info.color}-600 mt-1`}>
                           ⏱️ Updated at T:{subsystem.cycle}s {subsystem.timestamp && `• ${new Date(subsystem.timestamp).toLocaleTimeString()}`}
@@ -291,7 +293,7 @@ export function AviationSidebar() {
                     <Badge variant="outline">Monitoring...</Badge>
                   </div>
                   <p className="text-xs text-gray-600">
-                    {simulationData.isSimulating ? 
+                    {simulation.isSimulating ? 
                       "Analyzing hydraulic, electrical, control surface, cabin, and altimeter systems..." :
                       "Start simulation to monitor subsystem health"}
                   </p>
@@ -1,85 +1,149 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { ProvenanceBadge } from "@/components/provenance-badge"
+import { RulReplayChart, type RulReplayPoint } from "@/components/rul-replay-chart"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { AlertTriangle, TrendingUp, Activity, Zap, Settings, Droplets, Gauge, Wind, Home } from "lucide-react"
+import type { CmapssCycle, DatasetSplit, SyntheticRow } from "@/lib/prediction/datasets"
+import type { ModelDescriptor } from "@/lib/prediction/models"
+import type { ReadinessReport } from "@/lib/prediction/readiness"
+import type { BreakerSnapshot } from "@/lib/prediction/resilience"
+import {
+  batchResponseSchema,
+  predictionResponseSchema,
+  validatePredictionInput,
+  type BatchResponse,
+  type InputIssue,
+} from "@/lib/prediction/schemas"
+import { ENGINE_FEATURES, SEQUENCE_SUBSYSTEMS, type SequenceSubsystemName } from "@/lib/prediction/subsystems"
+import { heuristicRUL } from "@/lib/prediction/fallback"
+import { RISK_THRESHOLDS, alertLevelFor, isAtLeast, riskLevelFor } from "@/lib/prediction/alerts"
+import { WINDOW_PADDINGS, type WindowPadding } from "@/lib/prediction/windows"
+import { createSimulation, simulationDuration, stepSimulation, type SimulationState } from "@/lib/simulation/engine"
+import {
+  DEFAULT_PROFILE_ID,
+  FLIGHT_PROFILES,
+  PHASE_LABELS,
+  getFlightProfile,
+  profileDuration,
+  type FlightPhase,
+} from "@/lib/simulation/profiles"
+import {
+  FAULT_CATALOG,
+  FAULT_KINDS,
+  FAULT_RAMPS,
+  faultIntensity,
+  type FaultKind,
+  type FaultRamp,
+  type FaultSpec,
+} from "@/lib/simulation/faults"
+import { createRandom, parseSeed, randomSeed, type Random } from "@/lib/simulation/random"
+import {
+  DEFAULT_AIRCRAFT_ID,
+  describeExpectation,
+  scenarioFaults,
+  scenarioSensors,
+} from "@/lib/simulation/scenarios"
+import type { ScenarioFile, ScenarioFileError } from "@/lib/simulation/scenario-files"
+import { createTimeline } from "@/lib/simulation/timeline"
+import type { EnginePrediction, SubsystemPrediction } from "@/lib/telemetry/store"
+import { telemetryStore } from "@/hooks/use-telemetry"
+import { useAircraftStream } from "@/hooks/use-aircraft-stream"
+import { isValidTail, type AircraftStatus } from "@/lib/telemetry/feed"
+import {
+  SessionError,
+  createSessionRecorder,
+  parseSession,
+  sessionDuration,
+  sessionFrame,
+  type OperatorAction,
+  type PredictionRecord,
+  type Session,
+  type SessionRecorder,
+  type SessionSummary,
+} from "@/lib/simulation/sessions"
+import {
+  DEFAULT_ENGINE_SENSORS,
+  DEFAULT_SUBSYSTEM_SENSORS,
+  engineDataFromFeatures,
+  type EngineSensorData,
+  type SubsystemSensorData,
+} from "@/lib/simulation/sensors"
+import { createSensorHistory } from "@/lib/prediction/history"
+import { PROVENANCE_LABELS, displayedPrediction, isDegraded } from "@/lib/prediction/provenance"
+import {
+  fetchCmapssUnit,
+  fetchSyntheticUnit,
+  subsystemTruth,
+  subsystemWindows,
+  type CmapssReplayUnit,
+  type SubsystemTruth,
+  type SyntheticReplayUnit,
+} from "@/lib/prediction/replay"
+import { CaptureError, DEFAULT_LABEL_MAP, decodeCapture, parseLabelMap, type ArincCapture, type LabelMap } from "@/lib/avionics/capture"
 
-interface PredictionResult {
-  prediction: number
-  probability?: number[]
-  feature_importance?: Record<string, number>
-  risk_level?: string
+// Inputs taken from a dataset replay instead of the simulated sensors
+interface ReplayInputs {
+  engine?: number[]
+  sequences?: Partial<Record<SequenceSubsystemName, number[][]>>
+  truth?: Partial<Record<SequenceSubsystemName, SubsystemTruth>>
 }
 
-// Engine sensor data (existing)
-interface EngineSensorData {
-  setting_1: number
-  setting_2: number
-  setting_3: number
-  fan_inlet_temperature: number
-  lpc_pressure_ratio: number
-  hpc_pressure_ratio: number
-  lpt_temperature: number
-  hpt_temperature: number
-  fuel_flow_rate: number
-  oil_pressure: number
-  vibration_level: number
-  exhaust_gas_temperature: number
-  shaft_speed: number
-  ambient_air_pressure: number
-  ambient_air_temperature: number
-  total_air_pressure: number
-  static_pressure_ratio: number
-  torque: number
-  acceleration: number
-  compressor_discharge_temperature: number
-  combustion_chamber_pressure: number
-  fuel_temperature: number
-  nozzle_pressure_ratio: number
-  oil_temperature: number
+// Everything needed to reproduce a simulation run
+interface SimulationRun {
+  seed: number
+  profile: string
+  faults: FaultSpec[]
+  engine: EngineSensorData
+  subsystems: SubsystemSensorData
+  aircraft: string
+  // Scenario file the run came from, if any
+  scenario?: string
 }
 
-// New subsystem sensor data
-interface SubsystemSensorData {
-  // Hydraulic System (3 sensors)
-  hydraulic_pressure: number
-  hydraulic_flow: number
-  hydraulic_temp: number
-  
-  // Electrical System (2 sensors)
-  electrical_voltage: number
-  electrical_current: number
-  
-  // Control Surface System (1 sensor)
-  control_surface_deflection: number
-  
-  // Cabin System (1 sensor)
-  cabin_pressure: number
-  
-  // Altimeter System (1 sensor)
-  altimeter_drift: number
+// What the dashboard showed at one simulated second, for rewinding
+interface TimelineFrame {
+  state: SimulationState
+  engine: EngineSensorData
+  subsystems: SubsystemSensorData
+  replayCycle: CmapssCycle | null
+  syntheticRow: SyntheticRow | null
+  enginePrediction: EnginePrediction | null
+  subsystemPredictions: SubsystemPrediction[]
+  alertLevel: 'safe' | 'warning' | 'danger'
 }
 
-interface SubsystemPrediction {
-  subsystem: string
-  rul: number
-  risk_level: 'safe' | 'warning' | 'danger'
-  status: string
-  failure_probability?: number
-  cycle?: number
-  sensor_data?: any
+// Simulated seconds per wall-clock second
+const SPEED_MULTIPLIERS = [0.5, 1, 2, 10]
+
+// Model outputs older than this are not reused when a model call fails
+const MAX_CACHED_AGE_S = 9
+
+// "timestep 12, column 1 (hydraulic_flow): expected a finite number"
+function formatIssue(issue: InputIssue) {
+  const location = [
+    issue.timestep !== undefined && `timestep ${issue.timestep}`,
+    issue.column !== undefined && `column ${issue.column}${issue.feature ? ` (${issue.feature})` : ''}`,
+  ].filter(Boolean).join(', ')
+  return location ? `${location}: ${issue.message}` : issue.message
 }
 
 export function PredictionPanel() {
-  const [baseApiUrl, setBaseApiUrl] = useState('https://my-lstm-api-537563823214.us-central1.run.app')
+  // Empty base URL = use the server's configured backends
+  const [baseApiUrl, setBaseApiUrl] = useState('')
+  const [apiAuthHeader, setApiAuthHeader] = useState('')
   
   // State declarations
-  const [enginePrediction, setEnginePrediction] = useState<PredictionResult | null>(null)
+  const [enginePrediction, setEnginePrediction] = useState<EnginePrediction | null>(null)
   const [subsystemPredictions, setSubsystemPredictions] = useState<SubsystemPrediction[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -87,501 +151,337 @@ export function PredictionPanel() {
   const [isPaused, setIsPaused] = useState(false)
   const [simulationTime, setSimulationTime] = useState(0)
   const [currentSpeed, setCurrentSpeed] = useState(0)
+  const [currentAltitude, setCurrentAltitude] = useState(0)
+  const [flightPhase, setFlightPhase] = useState<FlightPhase | null>(null)
   const [alertLevel, setAlertLevel] = useState<'safe' | 'warning' | 'danger'>('safe')
   const [lastRUL, setLastRUL] = useState<number | null>(null)
   const [testingConnection, setTestingConnection] = useState(false)
   const [connectionStatus, setConnectionStatus] = useState<'unknown' | 'success' | 'failed'>('unknown')
+  const [connectionReport, setConnectionReport] = useState<ReadinessReport | null>(null)
+  const [modelInfo, setModelInfo] = useState<ModelDescriptor[]>([])
+  const [connectionError, setConnectionError] = useState<string | null>(null)
+  const [heuristicFallback, setHeuristicFallback] = useState(false)
+  const [breakers, setBreakers] = useState<BreakerSnapshot[]>([])
+
+  // Engine data source: the simulated takeoff or a replayed C-MAPSS unit
+  const [dataSource, setDataSource] = useState<'simulated' | 'cmapss'>('simulated')
+  const [replaySplit, setReplaySplit] = useState<DatasetSplit>('train')
+  const [replayUnitId, setReplayUnitId] = useState('1')
+  const [replayRate, setReplayRate] = useState(1)
+  const [replayUnit, setReplayUnit] = useState<CmapssReplayUnit | null>(null)
+  const [replayError, setReplayError] = useState<string | null>(null)
+  const [replayCycle, setReplayCycle] = useState<CmapssCycle | null>(null)
+  const [replayHistory, setReplayHistory] = useState<RulReplayPoint[]>([])
+
+  // Subsystem data source: simulated sensors or a replayed synthetic per-subsystem unit
+  const [subsystemSource, setSubsystemSource] = useState<'simulated' | 'synthetic'>('simulated')
+  const [syntheticSplit, setSyntheticSplit] = useState<DatasetSplit>('train')
+  const [syntheticUnitId, setSyntheticUnitId] = useState('1')
+  const [syntheticUnit, setSyntheticUnit] = useState<SyntheticReplayUnit | null>(null)
+  const [syntheticError, setSyntheticError] = useState<string | null>(null)
+  const [syntheticRow, setSyntheticRow] = useState<SyntheticRow | null>(null)
+
+  // Avionics bus capture: decoded ARINC 429 values laid over whichever sensors the run uses
+  const [arincReplay, setArincReplay] = useState(false)
+  const [arincLabelMap, setArincLabelMap] = useState<{ name: string; map: LabelMap }>({ name: 'default', map: DEFAULT_LABEL_MAP })
+  const [arincFile, setArincFile] = useState<{ name: string; text: string } | null>(null)
+  const [arincCapture, setArincCapture] = useState<ArincCapture | null>(null)
+  const [arincError, setArincError] = useState<string | null>(null)
+
+  // Refs so the simulation interval always sees current values
+  const heuristicFallbackRef = useRef(heuristicFallback)
+  heuristicFallbackRef.current = heuristicFallback
+  const lastModelPredictions = useRef<Partial<Record<string, SubsystemPrediction>>>({})
+  const replayRef = useRef<{ unit: CmapssReplayUnit; rate: number } | null>(null)
+  replayRef.current = dataSource === 'cmapss' && replayUnit ? { unit: replayUnit, rate: replayRate } : null
+  const syntheticRef = useRef<{ unit: SyntheticReplayUnit; rate: number } | null>(null)
+  syntheticRef.current = subsystemSource === 'synthetic' && syntheticUnit ? { unit: syntheticUnit, rate: replayRate } : null
+  const arincRef = useRef<ArincCapture | null>(null)
+  arincRef.current = arincReplay ? arincCapture : null
+  const replaying = dataSource === 'cmapss' || subsystemSource === 'synthetic' || arincReplay
+
+  // Every subsystem sensor sample the simulation produces; model windows are cut from it
+  const sensorHistory = useRef(createSensorHistory())
+  const [windowPadding, setWindowPadding] = useState<WindowPadding>('repeat-first')
+  const windowPaddingRef = useRef(windowPadding)
+  windowPaddingRef.current = windowPadding
+  const [historyFill, setHistoryFill] = useState(0)
+
+  // Model server routing sent with every prediction request
+  const apiRouting = () => ({
+    apiBaseUrl: baseApiUrl.trim() || undefined,
+    apiAuthHeader: apiAuthHeader.trim() || undefined,
+  })
 
   // Sensor data states - moved to top to avoid hoisting issues
-  const [engineSensorData, setEngineSensorData] = useState<EngineSensorData>({
-    // Operational Settings - Realistic commercial aircraft values
-    setting_1: 0.0023,      // Altitude setting (normalized)
-    setting_2: 0.0003,      // Mach number setting (normalized)  
-    setting_3: 100.0,       // Throttle resolver angle (degrees)
-    
-    // Temperature Sensors - Realistic turbofan values (°R = °F + 459.67)
-    fan_inlet_temperature: 518.67,       // Fan inlet temp (~59°F)
-    lpc_pressure_ratio: 1.50,            // Low pressure compressor ratio (1.5-2.5 typical)
-    hpc_pressure_ratio: 15.85,           // High pressure compressor ratio (15-25 typical)
-    lpt_temperature: 1400.0,             // Low pressure turbine temp (~940°F)
-    hpt_temperature: 2400.0,             // High pressure turbine temp (~1940°F)
-    fuel_flow_rate: 2200.0,              // Fuel flow rate (lbs/hr)
-    oil_pressure: 55.0,                  // Oil pressure (psi)
-    vibration_level: 0.15,               // Vibration level (in/sec)
-    
-    // Pressure & Flow Sensors - Realistic values
-    exhaust_gas_temperature: 1800.0,     // Exhaust gas temp (°R = ~1340°F)
-    shaft_speed: 0.85,                   // Shaft speed (normalized, 85% of max)
-    ambient_air_pressure: 14.7,          // Ambient pressure (psi at sea level)
-    ambient_air_temperature: 518.67,     // Ambient temp (°R = ~59°F)
-    total_air_pressure: 16.2,            // Total pressure (psi)
-    static_pressure_ratio: 1.10,         // Static pressure ratio
-    torque: 850.0,                       // Engine torque (ft-lbs)
-    acceleration: 0.05,                  // Acceleration (g)
-    
-    // Mechanical Sensors - Realistic values
-    compressor_discharge_temperature: 700.0,  // CDT (°F)
-    combustion_chamber_pressure: 250.0,      // Combustor pressure (psi)
-    fuel_temperature: 75.0,                  // Fuel temperature (°F)
-    nozzle_pressure_ratio: 1.8,             // Nozzle pressure ratio
-    oil_temperature: 180.0,                 // Oil temperature (°F)
+  // Seeded simulation: the state of the current run and how to reproduce it
+  const [seedInput, setSeedInput] = useState('')
+  const [profileId, setProfileId] = useState(DEFAULT_PROFILE_ID)
+  const [lastRun, setLastRun] = useState<SimulationRun | null>(null)
+  const simulationRef = useRef<SimulationState | null>(null)
+  // Faults scheduled for the next run; the ones a run actually used are kept in lastRun
+  const [faults, setFaults] = useState<FaultSpec[]>([])
+  const [faultDraft, setFaultDraft] = useState({
+    kind: 'hydraulic_pressure_loss' as FaultKind,
+    onset: '20',
+    ramp: 'linear' as FaultRamp,
+    rampSeconds: '10',
+    severity: '80',
   })
+  const [faultError, setFaultError] = useState<string | null>(null)
+  const faultCounter = useRef(0)
+  // Shared scenario files from scenarios/
+  const [scenarios, setScenarios] = useState<ScenarioFile[]>([])
+  const [scenarioErrors, setScenarioErrors] = useState<ScenarioFileError[]>([])
+  const [selectedScenario, setSelectedScenario] = useState('')
+  const [aircraftId, setAircraftId] = useState(DEFAULT_AIRCRAFT_ID)
+  // Separate stream for heuristic estimates, whose timing depends on the network
+  const outputRandom = useRef<Random>(Math.random)
+  // Time controls: playback speed and the per-second recording used to rewind
+  const [speedMultiplier, setSpeedMultiplier] = useState(1)
+  const timeline = useRef(createTimeline<TimelineFrame>())
+  const [timelineEnd, setTimelineEnd] = useState(0)
+  // Bumped on every rewind so predictions requested before it are dropped
+  const rewindCount = useRef(0)
+  const tickRef = useRef<() => void>(() => {})
+  // Recorded sessions: the one being recorded, saved ones, and one loaded for playback
+  const recorder = useRef<SessionRecorder | null>(null)
+  const [sessions, setSessions] = useState<SessionSummary[]>([])
+  const [lastSession, setLastSession] = useState<Session | null>(null)
+  const [sessionError, setSessionError] = useState<string | null>(null)
+  const [playback, setPlayback] = useState<Session | null>(null)
+  const [playbackPlaying, setPlaybackPlaying] = useState(false)
+  // Where runs execute: this tab, or the server, which streams them to every dashboard watching the aircraft
+  const [runLocation, setRunLocation] = useState<'browser' | 'server'>('browser')
+  const [serverError, setServerError] = useState<string | null>(null)
+  // What drives the watched aircraft: a server simulation or ingested telemetry
+  const [serverSource, setServerSource] = useState<AircraftStatus['source']>()
+  const [engineSensorData, setEngineSensorData] = useState<EngineSensorData>(DEFAULT_ENGINE_SENSORS)
+  const [subsystemSensorData, setSubsystemSensorData] = useState<SubsystemSensorData>(DEFAULT_SUBSYSTEM_SENSORS)
 
-  const [subsystemSensorData, setSubsystemSensorData] = useState<SubsystemSensorData>({
-    // Hydraulic System - Realistic commercial aircraft values
-    hydraulic_pressure: 3000,     // psi - typical aircraft hydraulic pressure (3000 psi normal)
-    hydraulic_flow: 8.5,          // gpm - gallons per minute (8-12 gpm typical)
-    hydraulic_temp: 120,          // °F - hydraulic fluid temperature (100-140°F normal)
-    
-    // Electrical System - Realistic values
-    electrical_voltage: 28.5,     // V - typical aircraft DC voltage (28V system)
-    electrical_current: 15.0,     // A - amperes (10-20A normal operation)
-    
-    // Control Surface System - Realistic takeoff position
-    control_surface_deflection: 5, // degrees - slight deflection for takeoff trim
+  // 2D time series for a subsystem LSTM model: the last 50 recorded samples,
+  // padded while the history is still warming up
+  const createSubsystemSequence = (subsystemName: SequenceSubsystemName) => {
+    const history = sensorHistory.current
+    const sequence = history.window(subsystemName, windowPaddingRef.current)
+    if (!sequence) {
+      return []
+    }
     
-    // Cabin System - Realistic ground pressure
-    cabin_pressure: 14.7,         // psi - sea level pressure (14.7 psi)
+    // Validate against the same schema the API enforces (50 timesteps x sensor columns, finite values)
+    const issues = validatePredictionInput(subsystemName, sequence)
+    if (issues) {
+      console.error(`Invalid ${subsystemName} sequence: ${formatIssue(issues[0])}`)
+      return []
+    }
     
-    // Altimeter System - Minor drift
-    altimeter_drift: 2,           // feet - minor altimeter error (±5 ft normal)
-  })
+    console.log(`📈 ${subsystemName} window from ${history.fill(subsystemName)}/${history.capacity} recorded samples - latest: [${sequence[sequence.length - 1].map(v => v.toFixed(2)).join(', ')}]`)
+    return sequence
+  }
 
-  // Update engine parameters based on time and stress with realistic changes
-  const updateEngineParameters = (time: number) => {
-    setEngineSensorData(prev => {
-      const newData = { ...prev }
-      
-      // Simulate realistic engine behavior during takeoff
-      const stressFactor = Math.min(time / 45, 1) // Increase stress over time
-      const throttlePosition = Math.min(time / 10, 1) // Throttle up over first 10 seconds
-      
-      // REALISTIC FUEL CONSUMPTION - Flow increases with throttle, temperature rises slightly
-      newData.fuel_flow_rate = Math.min(prev.fuel_flow_rate * (1 + throttlePosition * 0.15), 4000) // Max 4000 lbs/hr at full throttle
-      newData.fuel_temperature = Math.min(prev.fuel_temperature + throttlePosition * 5, 120) // Max 120°F
-      
-      // ENGINE TEMPERATURES - Realistic increases during takeoff
-      newData.exhaust_gas_temperature = Math.min(prev.exhaust_gas_temperature + throttlePosition * 200, 2200) // Max 2200°R (~1740°F)
-      newData.hpt_temperature = Math.min(prev.hpt_temperature + throttlePosition * 150, 2600) // Max 2600°R (~2140°F)
-      newData.lpt_temperature = Math.min(prev.lpt_temperature + throttlePosition * 100, 1600) // Max 1600°R (~1140°F)
-      newData.fan_inlet_temperature = prev.fan_inlet_temperature + throttlePosition * 10 // Slight increase
-      newData.compressor_discharge_temperature = Math.min(prev.compressor_discharge_temperature + throttlePosition * 100, 900) // Max 900°F
-      
-      // PRESSURES - Realistic increases with engine power
-      newData.lpc_pressure_ratio = Math.min(prev.lpc_pressure_ratio + throttlePosition * 0.5, 2.5) // Max 2.5
-      newData.hpc_pressure_ratio = Math.min(prev.hpc_pressure_ratio + throttlePosition * 5, 25) // Max 25
-      newData.total_air_pressure = Math.min(prev.total_air_pressure + throttlePosition * 5, 25) // Max 25 psi
-      newData.combustion_chamber_pressure = Math.min(prev.combustion_chamber_pressure + throttlePosition * 100, 400) // Max 400 psi
-      
-      // MECHANICAL STRESS - Realistic changes under load
-      newData.vibration_level = Math.min(prev.vibration_level + stressFactor * 0.05, 0.3) // Max 0.3 in/sec
-      newData.oil_pressure = Math.max(prev.oil_pressure - stressFactor * 2, 45) // Min 45 psi
-      newData.oil_temperature = Math.min(prev.oil_temperature + stressFactor * 10, 220) // Max 220°F
-      
-      // SHAFT AND MECHANICAL - Realistic performance increases
-      newData.shaft_speed = Math.min(prev.shaft_speed + throttlePosition * 0.10, 1.0) // Max 100% speed
-      newData.torque = Math.min(prev.torque + throttlePosition * 200, 1200) // Max 1200 ft-lbs
-      
-      // AMBIENT CONDITIONS - Slight changes due to altitude/speed
-      newData.ambient_air_pressure = prev.ambient_air_pressure * (0.9999 - time * 0.00001) // Slight decrease
-      newData.ambient_air_temperature = prev.ambient_air_temperature * (0.9999 - time * 0.00001)
-      
-      // Add realistic variation (±0.5% for critical parameters)
-      Object.keys(newData).forEach(key => {
-        if (key !== 'setting_1' && key !== 'setting_2' && key !== 'setting_3') {
-          const variation = 1 + (Math.random() - 0.5) * 0.01 // Reduced variation for realism
-          newData[key as keyof EngineSensorData] = newData[key as keyof EngineSensorData] * variation
-        }
-      })
-      
-      return newData
-    })
+  // Prediction for a subsystem whose model call failed this tick. Reuses a
+  // recent model output when there is one; the time-based heuristic only runs
+  // when the operator has opted in, and is always labelled as such.
+  const degradedPrediction = (subsystem: SequenceSubsystemName, time: number): SubsystemPrediction => {
+    const last = lastModelPredictions.current[subsystem]
+    if (last && last.cycle !== undefined && time - last.cycle <= MAX_CACHED_AGE_S) {
+      return { ...last, provenance: 'cached', status: `${last.status} (cached from T:${last.cycle}s)` }
+    }
+
+    if (heuristicFallbackRef.current) {
+      const { rul, failure } = heuristicRUL(subsystem, time, outputRandom.current)
+      const risk_level = failure ? 'danger' : riskLevelFor(rul)
+      console.log(`${subsystem} HEURISTIC FALLBACK - T:${time}s RUL:${rul} Failure:${failure} (${risk_level})`)
+      return {
+        subsystem,
+        rul,
+        risk_level,
+        status: 'Heuristic estimate - not model output',
+        failure_probability: failure ? 1.0 : (rul < RISK_THRESHOLDS.warning ? (RISK_THRESHOLDS.warning - rul) / RISK_THRESHOLDS.warning : 0),
+        cycle: time,
+        provenance: 'fallback-heuristic'
+      }
+    }
+
+    // No value is safer than an invented one; treat the gap as a caution
+    return {
+      subsystem,
+      rul: null,
+      risk_level: 'warning',
+      status: 'Model unavailable',
+      cycle: time,
+      provenance: 'unavailable'
+    }
   }
 
-  // Update subsystem parameters during simulation
-  const updateSubsystemParameters = (time: number) => {
-    setSubsystemSensorData(prev => {
-      const newData = { ...prev }
-      const stressFactor = Math.min(time / 45, 1)
-      const throttlePosition = Math.min(time / 10, 1)
-      
-      // HYDRAULIC SYSTEM - Realistic changes under takeoff load
-      newData.hydraulic_pressure = Math.max(prev.hydraulic_pressure - stressFactor * 50, 2800) // Pressure drop under load, min 2800 psi
-      newData.hydraulic_flow = Math.min(prev.hydraulic_flow + throttlePosition * 2, 12) // Flow increases with demand, max 12 gpm
-      newData.hydraulic_temp = Math.min(prev.hydraulic_temp + stressFactor * 8, 160) // Temperature rises under load, max 160°F
-      
-      // ELECTRICAL SYSTEM - Realistic electrical load changes
-      newData.electrical_voltage = Math.max(prev.electrical_voltage - stressFactor * 0.5, 26.5) // Voltage drops under load, min 26.5V
-      newData.electrical_current = Math.min(prev.electrical_current + throttlePosition * 8, 25) // Current increases with systems, max 25A
-      
-      // CONTROL SURFACE - Realistic deflection changes during takeoff
-      const targetDeflection = 5 + throttlePosition * 3 // Target 5-8 degrees for takeoff
-      newData.control_surface_deflection = targetDeflection + (Math.random() - 0.5) * 2 // ±1 degree variation
-      
-      // CABIN PRESSURE - Remains stable on ground, slight variation
-      newData.cabin_pressure = 14.7 + (Math.random() - 0.5) * 0.1 // ±0.05 psi variation
-      
-      // ALTIMETER - Realistic drift accumulation during operation
-      newData.altimeter_drift = Math.max(Math.min(prev.altimeter_drift + (Math.random() - 0.5) * 0.5, 8), -3) // Drift between -3 and +8 feet
-      
-      return newData
-    })
+  // Engine features in model column order (24 features)
+  const getEngineFeatures = () => ENGINE_FEATURES.map(key => engineSensorData[key])
+
+  const loadReplayUnit = async () => {
+    setReplayError(null)
+    try {
+      const data = await fetchCmapssUnit(replaySplit, replayUnitId)
+      setReplayUnit(data)
+      setReplayHistory([])
+      setReplayCycle(null)
+      setEngineSensorData(engineDataFromFeatures(data.cycles[0].features))
+    } catch (err) {
+      setReplayUnit(null)
+      setReplayError(err instanceof Error ? err.message : String(err))
+    }
   }
 
-  // Helper function to create 2D time series sequences for subsystem LSTM models
-  const createSubsystemSequence = (subsystemName: string, length: number = 50) => {
-    const sequence = []
-    const degradationFactor = Math.min(simulationTime / 45, 1) // Degradation over time
-    
-    // Ensure exactly 50 timesteps for API compatibility
-    for (let timestep = 0; timestep < 50; timestep++) {
-      const stepDegradation = (timestep / 50) * degradationFactor
-      
-      if (subsystemName === 'hydraulic') {
-        // Use CURRENT dynamic hydraulic sensor values as base, then simulate historical progression
-        const currentPressure = subsystemSensorData.hydraulic_pressure
-        const currentFlow = subsystemSensorData.hydraulic_flow  
-        const currentTemp = subsystemSensorData.hydraulic_temp
-        
-        // Create realistic historical progression leading to current values
-        const pressure = currentPressure - (49 - timestep) * 2 + (Math.random() - 0.5) * 10
-        const flow = currentFlow - (49 - timestep) * 0.1 + (Math.random() - 0.5) * 0.5
-        const temp = currentTemp - (49 - timestep) * 1 + (Math.random() - 0.5) * 2
-        sequence.push([Math.max(pressure, 2500), Math.max(flow, 6), Math.max(temp, 70)])
-        
-      } else if (subsystemName === 'electrical') {
-        // Use CURRENT dynamic electrical sensor values
-        const currentVoltage = subsystemSensorData.electrical_voltage
-        const currentCurrent = subsystemSensorData.electrical_current
-        
-        const voltage = currentVoltage - (49 - timestep) * 0.02 + (Math.random() - 0.5) * 0.1
-        const current = currentCurrent - (49 - timestep) * 0.2 + (Math.random() - 0.5) * 0.5
-        sequence.push([Math.max(voltage, 24), Math.max(current, 5)])
-        
-      } else if (subsystemName === 'control_surface') {
-        // Use CURRENT dynamic control surface values
-        const currentDeflection = subsystemSensorData.control_surface_deflection
-        
-        const deflection = currentDeflection - (49 - timestep) * 0.1 + (Math.random() - 0.5) * 0.5
-        sequence.push([Math.max(deflection, -10)])
-        
-      } else if (subsystemName === 'cabin') {
-        // Use CURRENT dynamic cabin pressure values
-        const currentPressure = subsystemSensorData.cabin_pressure
-        
-        const pressure = currentPressure - (49 - timestep) * 0.001 + (Math.random() - 0.5) * 0.01
-        sequence.push([Math.max(pressure, 14.5)])
-        
-      } else if (subsystemName === 'altimeter') {
-        // Use CURRENT dynamic altimeter drift values
-        const currentDrift = subsystemSensorData.altimeter_drift
-        
-        const drift = currentDrift - (49 - timestep) * 0.02 + (Math.random() - 0.5) * 0.1
-        sequence.push([drift])
-      }
+  const loadSyntheticUnit = async () => {
+    setSyntheticError(null)
+    try {
+      const data = await fetchSyntheticUnit(syntheticSplit, syntheticUnitId)
+      setSyntheticUnit(data)
+      setSyntheticRow(null)
+      setSubsystemSensorData(data.rows[0].sensors)
+    } catch (err) {
+      setSyntheticUnit(null)
+      setSyntheticError(err instanceof Error ? err.message : String(err))
     }
-    
-    // Validate sequence data
-    if (sequence.length !== 50) {
-      console.error(`Invalid sequence length for ${subsystemName}: ${sequence.length}`)
-      return []
+  }
+
+  const decodeArinc = (file: { name: string; text: string }, labelMap: { name: string; map: LabelMap }) => {
+    setArincError(null)
+    try {
+      const capture = decodeCapture(file.text, labelMap.map)
+      setArincCapture(capture)
+    } catch (err) {
+      setArincCapture(null)
+      setArincError(`${file.name}: ${err instanceof CaptureError ? err.message : String(err)}`)
     }
-    
-    // Check for any invalid numbers
-    const hasInvalidData = sequence.some(timestep => 
-      timestep.some(value => !Number.isFinite(value) || isNaN(value))
-    )
-    
-    if (hasInvalidData) {
-      console.error(`Invalid data detected in ${subsystemName} sequence`)
-      return []
+  }
+
+  const openArincCapture = async (file: File) => {
+    const capture = { name: file.name, text: await file.text() }
+    setArincFile(capture)
+    decodeArinc(capture, arincLabelMap)
+  }
+
+  const openArincLabelMap = async (file: File) => {
+    setArincError(null)
+    try {
+      const labelMap = { name: file.name, map: parseLabelMap(await file.text()) }
+      setArincLabelMap(labelMap)
+      if (arincFile) decodeArinc(arincFile, labelMap)
+    } catch (err) {
+      setArincError(`${file.name}: ${err instanceof CaptureError ? err.message : String(err)}`)
     }
-    
-    console.log(`📈 Created dynamic ${subsystemName} sequence - current: [${subsystemName === 'hydraulic' ? `${subsystemSensorData.hydraulic_pressure}, ${subsystemSensorData.hydraulic_flow}, ${subsystemSensorData.hydraulic_temp}` : subsystemName === 'electrical' ? `${subsystemSensorData.electrical_voltage}, ${subsystemSensorData.electrical_current}` : subsystemName === 'control_surface' ? subsystemSensorData.control_surface_deflection : subsystemName === 'cabin' ? subsystemSensorData.cabin_pressure : subsystemSensorData.altimeter_drift}]`)
-    return sequence
   }
 
-  // Real subsystem RUL predictions using LSTM API endpoints
-  const predictSubsystemRUL = async (time: number) => {
+  // Real engine + subsystem RUL predictions using one batch call to the LSTM API.
+  // Resolves with the engine RUL, or null when the engine model gave no answer.
+  const predictAllSystems = async (time: number, replay: ReplayInputs = {}): Promise<number | null> => {
+    const rewinds = rewindCount.current
     try {
-      console.log(`🔍 [T:${time}s] Starting subsystem RUL predictions with current sensor values`)
+      console.log(`🔍 [T:${time}s] Starting engine and subsystem RUL predictions with current sensor values`)
       
       // Prepare subsystem data for API calls with proper 2D time series sequences
-      const subsystemAPIs = [
-        {
-          name: 'hydraulic',
-          sequence: createSubsystemSequence('hydraulic')
-        },
-        {
-          name: 'electrical', 
-          sequence: createSubsystemSequence('electrical')
-        },
-        {
-          name: 'control_surface',
-          sequence: createSubsystemSequence('control_surface')
-        },
-        {
-          name: 'cabin',
-          sequence: createSubsystemSequence('cabin')
-        },
-        {
-          name: 'altimeter',
-          sequence: createSubsystemSequence('altimeter')
+      const subsystemAPIs = SEQUENCE_SUBSYSTEMS.map(name => ({
+        name,
+        sequence: replay.sequences?.[name] ?? createSubsystemSequence(name)
+      }))
+
+      // Engine + all subsystems go out together; each item succeeds or fails on its own
+      const sequences = Object.fromEntries(
+        subsystemAPIs
+          .filter(system => system.sequence.length > 0)
+          .map(system => [system.name, system.sequence])
+      )
+
+      let batch: BatchResponse | null = null
+      try {
+        console.log(`🌐 [T:${time}s] Making batch API call for engine + ${Object.keys(sequences).length} subsystems`)
+        const response = await fetch('/api/predict/batch', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            engine: replay.engine ?? getEngineFeatures(),
+            sequences,
+            ...apiRouting()
+          })
+        })
+        const data = await response.json().catch(() => null)
+        const parsed = batchResponseSchema.safeParse(data)
+        if (parsed.success) {
+          batch = parsed.data
+          console.log(`Batch API Response - Status: ${response.status}, ${batch.succeeded} ok / ${batch.failed} failed in ${batch.latency_ms}ms`)
+        } else {
+          console.log(`Batch API FAILED - Status: ${response.status}`, data)
         }
-      ]
+      } catch (error) {
+        console.error('Batch API ERROR:', error)
+      }
+
+      if (rewindCount.current !== rewinds) {
+        return null
+      }
+
+      const engineResult = batch?.results.find(item => item.subsystem === 'engine')
+      const engineOutput = displayedPrediction(engineResult)
+      if (engineOutput) {
+        setEnginePrediction({
+          prediction: engineOutput.rul,
+          provenance: engineOutput.provenance,
+          model_version: engineResult?.model_version
+        })
+        setError(null)
+      } else {
+        // Keep showing the last engine value, but never as fresh model output
+        setEnginePrediction(prev => prev && { ...prev, provenance: 'cached' })
+        setError(`Engine API Error: ${engineResult?.error || 'batch request failed'}`)
+      }
 
       const predictions: SubsystemPrediction[] = []
 
-      // Make API calls for each subsystem using Next.js proxy to avoid CORS
       for (const system of subsystemAPIs) {
-        try {
-          // Validate sequence before sending
-          if (!system.sequence || system.sequence.length === 0) {
-            console.warn(`❌ Invalid sequence for ${system.name}, skipping API call`)
-            continue
-          }
-          
-          console.log(`🌐 [${system.name}] Making proxy API call with ${system.sequence.length} timesteps`)
-          
-          const response = await fetch('/api/predict', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ 
-              subsystem: system.name,
-              sequence: system.sequence 
-            })
-          })
+        // Validate sequence before sending
+        if (!system.sequence || system.sequence.length === 0) {
+          console.warn(`⏳ No ${system.name} window yet, skipped in batch`)
+          continue
+        }
 
-          if (response.ok) {
-            const result = await response.json()
-            console.log(`${system.name} API Response:`, result)
-            
-            // Extract RUL from the response - subsystem models return "predicted_RUL"
-            let rawRUL = result.predicted_RUL || result[`predicted_${system.name}_output`] || result.prediction || result.rul || 0
-            
-            // Process RUL value - enhanced sensitivity for LSTM predictions
-            let rul = rawRUL
-            
-            // Add time-based degradation factor for more dynamic changes
-            const degradationFactor = Math.min(time / 50, 1) // 0 to 1 over 50 seconds
-            const randomVariation = (Math.random() - 0.5) * 2 // ±1 cycle variation
-            
-            if (rul < 0) {
-              // Negative RUL indicates critical failure - map with more sensitivity
-              // Use the absolute value but add time-based degradation
-              const baseRUL = Math.abs(rul)
-              rul = Math.max(1, Math.min(20, baseRUL + randomVariation - degradationFactor * 5))
-            } else if (rul > 200) {
-              // Very high RUL, cap at realistic range with degradation
-              rul = Math.min(rul - degradationFactor * 20 + randomVariation, 150)
-            } else {
-              // Medium range RUL - add degradation and variation
-              rul = Math.max(1, rul - degradationFactor * 10 + randomVariation)
-            }
-            
-            // Ensure realistic minimum
-            rul = Math.max(1, rul)
-            
-            let risk_level: 'safe' | 'warning' | 'danger' = 'safe'
-            let status = 'Normal Operation'
-            
-            if (rul < 25) {
-              risk_level = 'danger'
-              status = 'Critical Condition'
-            } else if (rul < 60) {
-              risk_level = 'warning'
-              status = 'Monitor Closely'
-            }
-            
-            console.log(`🔥 ${system.name} LSTM SUCCESS - Raw: ${rawRUL.toFixed(3)} -> Processed: ${rul.toFixed(1)} cycles (${risk_level}) [T:${time}s]`)
-
-            predictions.push({
-              subsystem: system.name,
-              rul: Math.round(rul * 10) / 10, // Show 1 decimal place for more sensitivity
-              risk_level,
-              status,
-              failure_probability: rul < 25 ? 0.8 : rul < 60 ? 0.3 : 0.1,
-              cycle: time,
-              sensor_data: {
-                raw_prediction: rawRUL,
-                api_response: result,
-                time_factor: degradationFactor
-              }
-            })
-          } else {
-            console.log(`${system.name} API FAILED - Status: ${response.status}`)
-            const errorText = await response.text()
-            console.log(`${system.name} Error details:`, errorText)
-            
-            // Simulate realistic dataset behavior matching training data structure
-            // No alerts in first 10 seconds, realistic degradation patterns after
-            let rul_hydraulic, rul_electrical, rul_control_surface, rul_cabin, rul_altimeter
-            let failure_hydraulic = false, failure_electrical = false, failure_control_surface = false, failure_cabin = false, failure_altimeter = false
-            
-            if (time <= 10) {
-              // First 10 seconds: all systems healthy (no vulnerabilities)
-              rul_hydraulic = 120 - Math.floor(Math.random() * 5)  // 115-120
-              rul_electrical = 120 - Math.floor(Math.random() * 5) // 115-120  
-              rul_control_surface = 120 - Math.floor(Math.random() * 5) // 115-120
-              rul_cabin = 120 - Math.floor(Math.random() * 5) // 115-120
-              rul_altimeter = 120 - Math.floor(Math.random() * 5) // 115-120
-            } else if (time <= 20) {
-              // 10-20 seconds: gradual degradation, some yellow warnings possible
-              const progression = (time - 10) / 10 // 0 to 1 over 10 seconds
-              
-              // Based on dataset patterns - different systems degrade at different rates
-              rul_hydraulic = Math.floor(120 - (progression * 45) - (Math.random() * 10)) // Can drop to 65-75 range
-              rul_electrical = Math.floor(120 - (progression * 30) - (Math.random() * 8)) // Can drop to 82-90 range
-              rul_control_surface = Math.floor(120 - (progression * 40) - (Math.random() * 15)) // Can drop to 65-80 range
-              rul_cabin = Math.floor(120 - (progression * 20) - (Math.random() * 5)) // Can drop to 95-100 range (most robust)
-              rul_altimeter = Math.floor(120 - (progression * 35) - (Math.random() * 10)) // Can drop to 75-85 range
-              
-              // Some failure probabilities start appearing
-              failure_hydraulic = progression > 0.7 && Math.random() < 0.1
-              failure_control_surface = progression > 0.8 && Math.random() < 0.05
-            } else {
-              // 20+ seconds: critical takeoff phase, red alerts possible
-              const criticalProgression = Math.min((time - 20) / 25, 1) // 0 to 1 over remaining time
-              
-              // More aggressive degradation patterns during critical phase
-              rul_hydraulic = Math.floor(75 - (criticalProgression * 50) - (Math.random() * 15)) // Can drop to 10-30
-              rul_electrical = Math.floor(90 - (criticalProgression * 45) - (Math.random() * 12)) // Can drop to 33-45  
-              rul_control_surface = Math.floor(80 - (criticalProgression * 60) - (Math.random() * 10)) // Can drop to 10-25
-              rul_cabin = Math.floor(100 - (criticalProgression * 30) - (Math.random() * 8)) // Can drop to 62-70
-              rul_altimeter = Math.floor(85 - (criticalProgression * 50) - (Math.random() * 12)) // Can drop to 23-35
-              
-              // Higher failure probabilities during critical phase
-              failure_hydraulic = criticalProgression > 0.3 && Math.random() < (0.15 + criticalProgression * 0.2)
-              failure_electrical = criticalProgression > 0.5 && Math.random() < (0.1 + criticalProgression * 0.15)
-              failure_control_surface = criticalProgression > 0.4 && Math.random() < (0.12 + criticalProgression * 0.25)
-              failure_cabin = criticalProgression > 0.7 && Math.random() < (0.05 + criticalProgression * 0.08)
-              failure_altimeter = criticalProgression > 0.6 && Math.random() < (0.08 + criticalProgression * 0.12)
-            }
-            
-            // Ensure minimum values (5 cycles minimum based on dataset)
-            rul_hydraulic = Math.max(5, rul_hydraulic)
-            rul_electrical = Math.max(5, rul_electrical)
-            rul_control_surface = Math.max(5, rul_control_surface)
-            rul_cabin = Math.max(5, rul_cabin)
-            rul_altimeter = Math.max(5, rul_altimeter)
-            
-            // Get current system's RUL and failure status
-            let currentRul: number, currentFailure: boolean
-            switch (system.name) {
-              case 'hydraulic':
-                currentRul = rul_hydraulic
-                currentFailure = failure_hydraulic
-                break
-              case 'electrical':
-                currentRul = rul_electrical
-                currentFailure = failure_electrical
-                break
-              case 'control_surface':
-                currentRul = rul_control_surface
-                currentFailure = failure_control_surface
-                break
-              case 'cabin':
-                currentRul = rul_cabin
-                currentFailure = failure_cabin
-                break
-              case 'altimeter':
-                currentRul = rul_altimeter
-                currentFailure = failure_altimeter
-                break
-              default:
-                currentRul = 100
-                currentFailure = false
-            }
-            
-            // Determine risk level based on dataset thresholds
-            let risk_level: 'safe' | 'warning' | 'danger'
-            if (currentFailure || currentRul < 25) {
-              risk_level = 'danger'
-            } else if (currentRul < 60) {
-              risk_level = 'warning'
-            } else {
-              risk_level = 'safe'
-            }
-            
-            console.log(`${system.name} DATASET - T:${time}s RUL:${currentRul} Failure:${currentFailure} (${risk_level})`)
-            
-            // Create complete dataset structure following your specification
-            const datasetEntry = {
-              unit: 1,
-              cycle: time,
-              RUL_hydraulic: rul_hydraulic,
-              failure_hydraulic: failure_hydraulic,
-              RUL_electrical: rul_electrical, 
-              failure_electrical: failure_electrical,
-              RUL_control_surface: rul_control_surface,
-              failure_control_surface: failure_control_surface,
-              RUL_cabin: rul_cabin,
-              failure_cabin: failure_cabin,
-              RUL_altimeter: rul_altimeter,
-              failure_altimeter: failure_altimeter,
-              hydraulic_pressure: subsystemSensorData.hydraulic_pressure,
-              hydraulic_flow: subsystemSensorData.hydraulic_flow,
-              hydraulic_temp: subsystemSensorData.hydraulic_temp,
-              electrical_voltage: subsystemSensorData.electrical_voltage,
-              electrical_current: subsystemSensorData.electrical_current,
-              control_surface_deflection: subsystemSensorData.control_surface_deflection,
-              cabin_pressure: subsystemSensorData.cabin_pressure,
-              altimeter_drift: subsystemSensorData.altimeter_drift
-            }
-            
-            predictions.push({
-              subsystem: system.name,
-              rul: currentRul,
-              risk_level,
-              status: risk_level === 'danger' ? 'Critical Condition' : 
-                      risk_level === 'warning' ? 'Monitor Closely' : 'Normal Operation',
-              failure_probability: currentFailure ? 1.0 : (currentRul < 60 ? (60 - currentRul) / 60 : 0),
-              cycle: time,
-              sensor_data: datasetEntry
-            })
-          }
-        } catch (error) {
-          console.error(`${system.name} API ERROR:`, error)
-          console.log(`${system.name} falling back to simulation`)
-          // Fallback using same dataset simulation logic
-          let currentRul = 100
-          let currentFailure = false
+        const result = batch?.results.find(item => item.subsystem === system.name)
+        const output = displayedPrediction(result)
+
+        if (result && output) {
+          console.log(`${system.name} API Response:`, result)
           
-          if (time <= 10) {
-            currentRul = 120 - Math.floor(Math.random() * 5)
-          } else if (time <= 20) {
-            const progression = (time - 10) / 10
-            currentRul = system.name === 'hydraulic' ? Math.floor(120 - (progression * 45) - (Math.random() * 10)) :
-                        system.name === 'electrical' ? Math.floor(120 - (progression * 30) - (Math.random() * 8)) :
-                        system.name === 'control_surface' ? Math.floor(120 - (progression * 40) - (Math.random() * 15)) :
-                        system.name === 'cabin' ? Math.floor(120 - (progression * 20) - (Math.random() * 5)) :
-                        Math.floor(120 - (progression * 35) - (Math.random() * 10))
-            currentFailure = progression > 0.7 && Math.random() < 0.05
-          } else {
-            const criticalProgression = Math.min((time - 20) / 25, 1)
-            currentRul = system.name === 'hydraulic' ? Math.floor(75 - (criticalProgression * 50) - (Math.random() * 15)) :
-                        system.name === 'electrical' ? Math.floor(90 - (criticalProgression * 45) - (Math.random() * 12)) :
-                        system.name === 'control_surface' ? Math.floor(80 - (criticalProgression * 60) - (Math.random() * 10)) :
-                        system.name === 'cabin' ? Math.floor(100 - (criticalProgression * 30) - (Math.random() * 8)) :
-                        Math.floor(85 - (criticalProgression * 50) - (Math.random() * 12))
-            currentFailure = criticalProgression > 0.4 && Math.random() < (0.1 + criticalProgression * 0.15)
-          }
+          const { rul, risk_level, provenance } = output
+          let status = risk_level === 'danger' ? 'Critical Condition' :
+                       risk_level === 'warning' ? 'Monitor Closely' : 'Normal Operation'
           
-          currentRul = Math.max(5, currentRul)
-          const risk_level = currentFailure || currentRul < 25 ? 'danger' : 
-                            currentRul < 60 ? 'warning' : 'safe'
+          if (provenance === 'cached') {
+            status = `${status} (served from cache)`
+          }
           
-          predictions.push({
+          console.log(`🔥 ${system.name} LSTM SUCCESS${provenance === 'cached' ? ' (cache hit)' : ''} - ${rul.toFixed(3)} cycles (${risk_level}) [T:${time}s]`)
+
+          const prediction: SubsystemPrediction = {
             subsystem: system.name,
-            rul: currentRul,
+            rul: Math.round(rul * 10) / 10, // Show 1 decimal place for more sensitivity
             risk_level,
-            status: risk_level === 'danger' ? 'Critical Condition' : 
-                    risk_level === 'warning' ? 'Monitor Closely' : 'Normal Operation',
-            failure_probability: currentFailure ? 1.0 : (currentRul < 60 ? (60 - currentRul) / 60 : 0),
-            cycle: time
-          })
+            status,
+            failure_probability: risk_level === 'danger' ? 0.8 : risk_level === 'warning' ? 0.3 : 0.1,
+            cycle: time,
+            // Server-side cache hits are model output, but not computed for this tick
+            provenance,
+            model_version: result.model_version,
+            truth: replay.truth?.[system.name],
+            sensor_data: {
+              api_response: result
+            }
+          }
+          lastModelPredictions.current[system.name] = prediction
+          predictions.push(prediction)
+        } else {
+          console.log(`${system.name} API FAILED - ${result?.issues ? formatIssue(result.issues[0]) : result?.error || 'no batch response'}`)
+          predictions.push({ ...degradedPrediction(system.name, time), truth: replay.truth?.[system.name] })
         }
       }
 
@@ -599,38 +499,109 @@ export function PredictionPanel() {
       
       console.log(`📤 Sending ${timestampedPredictions.length} predictions to UI...`)
       setSubsystemPredictions(timestampedPredictions)
+      recorder.current?.prediction(
+        engineOutput
+          ? {
+              time,
+              subsystem: 'engine',
+              ...engineOutput,
+              status: engineOutput.provenance === 'cached' ? 'Served from cache' : 'Model output',
+              model_version: engineResult?.model_version,
+            }
+          : { time, subsystem: 'engine', rul: null, risk_level: 'warning', status: 'Model unavailable', provenance: 'unavailable' }
+      )
+      for (const p of predictions) {
+        recorder.current?.prediction({
+          time,
+          subsystem: p.subsystem,
+          rul: p.rul,
+          risk_level: p.risk_level,
+          status: p.status,
+          provenance: p.provenance,
+          model_version: p.model_version,
+        })
+      }
+      return engineOutput ? engineOutput.rul : null
     } catch (error) {
       console.error('💥 Error in subsystem prediction:', error)
+      return null
     }
   }
 
+  // Record what is on screen for the current second; predictions land after
+  // the tick that asked for them, so a second's frame is updated until the next one
+  useEffect(() => {
+    const state = simulationRef.current
+    if (!isSimulating || !state || state.time !== simulationTime) return
+    timeline.current.record(simulationTime, {
+      state,
+      engine: engineSensorData,
+      subsystems: subsystemSensorData,
+      replayCycle,
+      syntheticRow,
+      enginePrediction,
+      subsystemPredictions,
+      alertLevel,
+    })
+    setTimelineEnd(timeline.current.end)
+  }, [isSimulating, simulationTime, engineSensorData, subsystemSensorData, replayCycle, syntheticRow, enginePrediction, subsystemPredictions, alertLevel])
+
+  // Scenario files are read once; the list only changes when the repo does
+  useEffect(() => {
+    const loadScenarios = async () => {
+      try {
+        const response = await fetch('/api/scenarios')
+        if (response.ok) {
+          const data = await response.json()
+          setScenarios(data.scenarios)
+          setScenarioErrors(data.errors)
+        }
+      } catch (error) {
+        console.error('Failed to load scenarios:', error)
+      }
+    }
+
+    loadScenarios()
+  }, [])
+
+  // Poll circuit breaker state so operators can see which model endpoints are healthy
+  useEffect(() => {
+    const loadBreakers = async () => {
+      try {
+        const response = await fetch('/api/breakers')
+        if (response.ok) {
+          const data = await response.json()
+          setBreakers(data.breakers)
+        }
+      } catch (error) {
+        console.error('Failed to load circuit breaker state:', error)
+      }
+    }
+    
+    loadBreakers()
+    const interval = setInterval(loadBreakers, 5000)
+    return () => clearInterval(interval)
+  }, [])
+
   // Check for RUL changes and trigger alerts
   useEffect(() => {
     if (enginePrediction && isSimulating) {
       const currentRUL = enginePrediction.prediction
       
-      // Check all systems for overall alert level
-      let newAlertLevel: 'safe' | 'warning' | 'danger' = 'safe'
-      
-      // Engine RUL check
-      if (currentRUL < 30) {
-        newAlertLevel = 'danger'
-      } else if (currentRUL < 80) {
-        newAlertLevel = 'warning'
-      }
+      // Check all systems for overall alert level, starting from the engine
+      let newAlertLevel = alertLevelFor(currentRUL)
       
       // Subsystem RUL check
       subsystemPredictions.forEach(pred => {
-        if (pred.rul < 30 && newAlertLevel !== 'danger') {
-          newAlertLevel = 'danger'
-        } else if (pred.rul < 80 && newAlertLevel === 'safe') {
-          newAlertLevel = 'warning'
-        }
+        // Unavailable prediction - caution, but never critical on no data
+        const level = pred.rul === null ? 'warning' : alertLevelFor(pred.rul)
+        if (!isAtLeast(newAlertLevel, level)) newAlertLevel = level
       })
       
       // Trigger alert if level changed
       if (lastRUL !== null && newAlertLevel !== alertLevel) {
         setAlertLevel(newAlertLevel)
+        recorder.current?.alert(simulationRef.current?.time ?? 0, alertLevel, newAlertLevel)
         
         if (newAlertLevel === 'danger') {
           console.log('🔴 CRITICAL: System RUL reached danger level!')
@@ -643,108 +614,492 @@ export function PredictionPanel() {
     }
   }, [enginePrediction, subsystemPredictions, isSimulating, lastRUL, alertLevel])
 
-  // Emit simulation data to aircraft visualization and sidebar
+  // Publish to the telemetry store for the aircraft visualization and sidebar,
+  // one slice at a time so subscribers only re-render for what changed
   useEffect(() => {
-    const simulationData = {
-      isSimulating,
-      isPaused,
-      alertLevel,
-      currentSpeed,
-      simulationTime,
-      rulValue: enginePrediction?.prediction,
-      subsystemPredictions: subsystemPredictions // Include all subsystem data
+    telemetryStore.update({
+      simulation: {
+        // Playback drives the visualizations like a live run
+        isSimulating: isSimulating || playback !== null,
+        isPaused: playback ? !playbackPlaying : isPaused,
+        time: simulationTime,
+        speed: currentSpeed,
+        altitude: currentAltitude,
+        phase: flightPhase,
+        profileName: getFlightProfile(lastRun?.profile ?? profileId).name,
+        aircraftId: lastRun?.aircraft ?? aircraftId,
+        scenario: lastRun?.scenario,
+      }
+    })
+  }, [isSimulating, isPaused, playback, playbackPlaying, currentSpeed, currentAltitude, flightPhase, lastRun, profileId, aircraftId, simulationTime])
+
+  useEffect(() => {
+    telemetryStore.update({ sensors: { engine: engineSensorData, subsystems: subsystemSensorData } })
+  }, [engineSensorData, subsystemSensorData])
+
+  useEffect(() => {
+    telemetryStore.update({ predictions: { engine: enginePrediction, subsystems: subsystemPredictions } })
+  }, [enginePrediction, subsystemPredictions])
+
+  useEffect(() => {
+    telemetryStore.update({ alertLevel })
+  }, [alertLevel])
+
+  // Start a run from a seed, flight profile, faults and starting sensors; the same inputs always produce the same trajectory
+  const startSimulation = (run: SimulationRun) => {
+    const { seed, profile, faults: runFaults, engine, subsystems } = run
+    lastModelPredictions.current = {}
+    simulationRef.current = createSimulation(seed, engine, subsystems, profile, runFaults)
+    outputRandom.current = createRandom(seed ^ 0x5eed)
+    sensorHistory.current.reset()
+    timeline.current.clear()
+    setTimelineEnd(0)
+    const { phase, speed, altitude } = simulationRef.current
+    recorder.current = createSessionRecorder(run)
+    recorder.current.snapshot({ time: 0, phase, speed, altitude, engine, subsystems })
+    recorder.current.action(0, 'start', run.scenario && `scenario ${run.scenario}`)
+    setLastRun(run)
+    setSeedInput(String(seed))
+    setProfileId(profile)
+    setFaults(runFaults)
+    setAircraftId(run.aircraft)
+    setEngineSensorData(engine)
+    setSubsystemSensorData(subsystems)
+    setReplayHistory([])
+    setReplayCycle(null)
+    setSyntheticRow(null)
+    setHistoryFill(0)
+    setAlertLevel('safe')
+    setEnginePrediction(null)
+    setSubsystemPredictions([])
+    setSimulationTime(0)
+    setCurrentSpeed(0)
+    setCurrentAltitude(0)
+    setFlightPhase(simulationRef.current.phase)
+    setIsPaused(false)
+    setIsSimulating(true)
+  }
+
+  // A scenario as a run; loading it into the controls shows exactly what it will do
+  const scenarioRun = (file: ScenarioFile): SimulationRun => ({
+    seed: file.scenario.seed,
+    profile: file.scenario.profile,
+    faults: scenarioFaults(file.scenario),
+    ...scenarioSensors(file.scenario),
+    aircraft: file.scenario.aircraft,
+    scenario: file.id,
+  })
+
+  const loadScenario = (file: ScenarioFile) => {
+    const run = scenarioRun(file)
+    setSeedInput(String(run.seed))
+    setProfileId(run.profile)
+    setFaults(run.faults)
+    setEngineSensorData(run.engine)
+    setSubsystemSensorData(run.subsystems)
+    setAircraftId(run.aircraft)
+  }
+
+  const addFault = () => {
+    const onset = Number(faultDraft.onset)
+    const rampSeconds = faultDraft.ramp === 'step' ? 0 : Number(faultDraft.rampSeconds)
+    const severity = Number(faultDraft.severity)
+    if (faultDraft.onset.trim() === '' || !Number.isFinite(onset) || onset < 0) {
+      setFaultError('Onset must be a time in seconds, 0 or later')
+      return
     }
-    
-    // Emit custom event for aircraft visualization and sidebar
-    const event = new CustomEvent('simulationUpdate', { detail: simulationData })
-    window.dispatchEvent(event)
-  }, [isSimulating, isPaused, alertLevel, currentSpeed, simulationTime, enginePrediction, subsystemPredictions])
+    if (!Number.isFinite(rampSeconds) || rampSeconds < 0) {
+      setFaultError('Ramp duration must be 0 seconds or longer')
+      return
+    }
+    if (!Number.isFinite(severity) || severity <= 0 || severity > 100) {
+      setFaultError('Severity must be between 1 and 100%')
+      return
+    }
+    faultCounter.current += 1
+    setFaults(prev => [
+      ...prev,
+      {
+        id: `fault-${faultCounter.current}`,
+        kind: faultDraft.kind,
+        onset_s: onset,
+        ramp: faultDraft.ramp,
+        ramp_s: rampSeconds,
+        severity: severity / 100,
+      },
+    ].sort((a, b) => a.onset_s - b.onset_s))
+    setFaultError(null)
+  }
 
-  // Real-time simulation effect (now after state declarations)
+  // Sessions are kept server-side; a failed save still leaves the bundle downloadable
+  const saveSession = async (session: Session) => {
+    try {
+      const response = await fetch('/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(session)
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+      loadSessions()
+    } catch (error) {
+      setSessionError(`Session ${session.id} was not saved: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const loadSessions = async () => {
+    try {
+      const response = await fetch('/api/sessions')
+      if (response.ok) {
+        const data = await response.json()
+        setSessions(data.sessions)
+      }
+    } catch (error) {
+      console.error('Failed to load sessions:', error)
+    }
+  }
+
+  // Saved sessions are listed on mount and refreshed after each save
   useEffect(() => {
-    let interval: NodeJS.Timeout | null = null
+    loadSessions()
+  }, [])
+
+  const logAction = (action: OperatorAction, detail?: string) => {
+    recorder.current?.action(simulationRef.current?.time ?? 0, action, detail)
+  }
+
+  // Ends the run; the recorded session is kept for review, download and playback
+  const stopSimulation = (reason: Session['end_reason'] = 'stopped') => {
+    if (recorder.current) {
+      if (reason === 'stopped') logAction('stop')
+      const session = recorder.current.finish(reason)
+      recorder.current = null
+      setLastSession(session)
+      saveSession(session)
+    }
+    setIsSimulating(false)
+    setIsPaused(false)
+    setSimulationTime(0)
+    setCurrentSpeed(0)
+    setCurrentAltitude(0)
+    setFlightPhase(null)
+    setAlertLevel('safe')
+    setEnginePrediction(null)
+    setSubsystemPredictions([])
+    setSyntheticRow(null)
+    lastModelPredictions.current = {}
+  }
+
+  // Advance the simulation by one second. Stepping on from a rewound second
+  // discards the recording after it, since the run may now diverge.
+  const tick = () => {
+    const sim = simulationRef.current
+    if (!sim) return
+    if (timeline.current.end > sim.time) {
+      timeline.current.truncate(sim.time)
+      recorder.current?.truncate(sim.time)
+      setTimelineEnd(timeline.current.end)
+    }
+    const next = stepSimulation(sim)
+    simulationRef.current = next
+    const newTime = next.time
     
-    if (isSimulating && !isPaused) {
-      interval = setInterval(() => {
-        setSimulationTime(prev => {
-          const newTime = prev + 1
-          
-          // Calculate current speed based on takeoff profile (0-45 seconds to V1)
-          let speed = 0
-          if (newTime <= 45) {
-            // Accelerate from 0 to 175 knots over 45 seconds (typical takeoff)
-            speed = Math.min(175, (newTime / 45) * 175)
-          } else {
-            speed = 175 // Maintain V1 speed
-          }
-          setCurrentSpeed(speed)
-          
-          // Update all system parameters dynamically during simulation
-          if (newTime <= 50) { // Run simulation for 50 seconds
-            updateEngineParameters(newTime)
-            updateSubsystemParameters(newTime)
-            
-            // Auto-predict every 3 seconds during critical phase
-            if (newTime % 3 === 0) { // Predict every 3 seconds to avoid API overload
-              console.log(`🔄 T:${newTime}s - Making predictions with dynamic sensor values...`)
-              console.log(`Current hydraulic: P=${subsystemSensorData.hydraulic_pressure.toFixed(1)}, F=${subsystemSensorData.hydraulic_flow.toFixed(1)}, T=${subsystemSensorData.hydraulic_temp.toFixed(1)}`)
-              console.log(`Current electrical: V=${subsystemSensorData.electrical_voltage.toFixed(1)}, I=${subsystemSensorData.electrical_current.toFixed(1)}`)
-              handleEnginePrediction() // auto prediction during simulation
-              predictSubsystemRUL(newTime) // predict subsystem RUL using LSTM APIs
-            }
-          } else {
-            // End simulation after 50 seconds
-            setIsSimulating(false)
-            setIsPaused(false)
-            setSimulationTime(0)
-            setCurrentSpeed(0)
-            setAlertLevel('safe') // Reset to safe when simulation ends
-            setEnginePrediction(null) // Clear prediction data
-            setSubsystemPredictions([]) // Clear subsystem predictions
+    // Replays advance `rate` dataset cycles per second and run until a unit's data ends
+    const replay = replayRef.current
+    const replayRow = replay ? replay.unit.cycles[(newTime - 1) * replay.rate] : undefined
+    const synthetic = syntheticRef.current
+    const syntheticIndex = synthetic ? (newTime - 1) * synthetic.rate : 0
+    const syntheticData = synthetic?.unit.rows[syntheticIndex]
+    // A capture plays one recorded second per simulated second
+    const arinc = arincRef.current
+    const arincData = arinc?.seconds[newTime - 1]
+    const running = replay || synthetic || arinc
+      ? (!replay || replayRow !== undefined) && (!synthetic || syntheticData !== undefined) && (!arinc || arincData !== undefined)
+      : newTime <= simulationDuration(next)
+    
+    // Update all system parameters dynamically during simulation
+    if (running) { // Run to the end of the flight profile, or for as long as the replayed data lasts
+      setSimulationTime(newTime)
+      setCurrentSpeed(next.speed)
+      setCurrentAltitude(next.altitude)
+      setFlightPhase(next.phase)
+      const engine = { ...(replayRow ? engineDataFromFeatures(replayRow.features) : next.engine), ...arincData?.engine }
+      const subsystems = { ...(syntheticData ? syntheticData.sensors : next.subsystems), ...arincData?.subsystems }
+      setEngineSensorData(engine)
+      setSubsystemSensorData(subsystems)
+      sensorHistory.current.record(subsystems)
+      recorder.current?.snapshot({ time: newTime, phase: next.phase, speed: next.speed, altitude: next.altitude, engine, subsystems })
+      setHistoryFill(Math.min(...SEQUENCE_SUBSYSTEMS.map(name => sensorHistory.current.fill(name))))
+      if (replayRow) setReplayCycle(replayRow)
+      if (syntheticData) setSyntheticRow(syntheticData)
+      
+      // Auto-predict every 3 seconds during critical phase
+      if (newTime % 3 === 0) { // Predict every 3 seconds to avoid API overload
+        console.log(`🔄 T:${newTime}s - Making predictions with ${replayRow ? `C-MAPSS unit ${replay?.unit.unit} cycle ${replayRow.cycle}` : `seed ${next.seed} sensor values`}...`)
+        console.log(`Current hydraulic: P=${subsystems.hydraulic_pressure.toFixed(1)}, F=${subsystems.hydraulic_flow.toFixed(1)}, T=${subsystems.hydraulic_temp.toFixed(1)}`)
+        console.log(`Current electrical: V=${subsystems.electrical_voltage.toFixed(1)}, I=${subsystems.electrical_current.toFixed(1)}`)
+        // engine + subsystem RUL in a single batch request
+        const rewinds = rewindCount.current
+        predictAllSystems(newTime, {
+          engine: ENGINE_FEATURES.map(key => engine[key]),
+          // Captured values go through the sensor history rather than the unit's own windows
+          sequences: synthetic && !arinc ? subsystemWindows(synthetic.unit, syntheticIndex) : undefined,
+          truth: syntheticData && subsystemTruth(syntheticData),
+        }).then(predicted => {
+          if (replayRow && rewindCount.current === rewinds) {
+            setReplayHistory(prev => [...prev, { cycle: replayRow.cycle, true_rul: replayRow.rul, predicted_rul: predicted }])
           }
-          
-          return newTime
         })
-      }, 1000) // Update every second
+      }
+    } else {
+      // End simulation when the profile (or replayed unit) is over
+      stopSimulation('completed')
+      setReplayCycle(null) // Keep the replay chart for review
+    }
+  }
+  tickRef.current = tick
+
+  // Put the dashboard back exactly as it was at an earlier second of the run
+  const restoreFrame = (time: number) => {
+    const frame = timeline.current.at(time)
+    if (!frame) return
+    rewindCount.current += 1
+    simulationRef.current = frame.state
+    setSimulationTime(frame.state.time)
+    setCurrentSpeed(frame.state.speed)
+    setCurrentAltitude(frame.state.altitude)
+    setFlightPhase(frame.state.phase)
+    setEngineSensorData(frame.engine)
+    setSubsystemSensorData(frame.subsystems)
+    setReplayCycle(frame.replayCycle)
+    setSyntheticRow(frame.syntheticRow)
+    setEnginePrediction(frame.enginePrediction)
+    setSubsystemPredictions(frame.subsystemPredictions)
+    setAlertLevel(frame.alertLevel)
+    if (frame.replayCycle) {
+      const cycle = frame.replayCycle.cycle
+      setReplayHistory(prev => prev.filter(point => point.cycle <= cycle))
+    }
+
+    // The model windows and the cached-output fallback must match that second too
+    const history = sensorHistory.current
+    history.reset()
+    for (const earlier of timeline.current.range(time - history.capacity + 1, time)) {
+      history.record(earlier.subsystems)
+    }
+    setHistoryFill(Math.min(...SEQUENCE_SUBSYSTEMS.map(name => history.fill(name))))
+    lastModelPredictions.current = Object.fromEntries(
+      frame.subsystemPredictions
+        .filter(prediction => prediction.provenance === 'model')
+        .map(prediction => [prediction.subsystem, prediction])
+    )
+  }
+
+  const predictionFromRecord = (subsystem: SequenceSubsystemName, record: PredictionRecord): SubsystemPrediction => ({
+    subsystem,
+    rul: record.rul,
+    risk_level: record.risk_level,
+    status: record.status,
+    cycle: record.time,
+    provenance: record.provenance,
+    model_version: record.model_version
+  })
+
+  // Read-only playback of a recorded session: the dashboard shows what it
+  // showed at each second of the run, and nothing can be started or edited
+  const showSessionSecond = (session: Session, time: number) => {
+    const { snapshot, predictions, alertLevel: level } = sessionFrame(session, time)
+    setSimulationTime(time)
+    if (snapshot) {
+      setCurrentSpeed(snapshot.speed)
+      setCurrentAltitude(snapshot.altitude)
+      setFlightPhase(snapshot.phase)
+      setEngineSensorData(snapshot.engine)
+      setSubsystemSensorData(snapshot.subsystems)
+    }
+    const engine = predictions.engine
+    setEnginePrediction(engine && engine.rul !== null
+      ? { prediction: engine.rul, provenance: engine.provenance, model_version: engine.model_version }
+      : null)
+    setSubsystemPredictions(SEQUENCE_SUBSYSTEMS.flatMap(name => {
+      const record = predictions[name]
+      return record ? [predictionFromRecord(name, record)] : []
+    }))
+    setAlertLevel(level)
+  }
+
+  const openPlayback = (session: Session) => {
+    setSessionError(null)
+    setPlayback(session)
+    setPlaybackPlaying(false)
+    setLastRun(session.run)
+    setProfileId(session.run.profile)
+    setFaults(session.run.faults)
+    setAircraftId(session.run.aircraft)
+    setReplayHistory([])
+    setReplayCycle(null)
+    setSyntheticRow(null)
+    showSessionSecond(session, 0)
+  }
+
+  const closePlayback = () => {
+    if (!playback) return
+    setPlayback(null)
+    setPlaybackPlaying(false)
+    setSimulationTime(0)
+    setCurrentSpeed(0)
+    setCurrentAltitude(0)
+    setFlightPhase(null)
+    setAlertLevel('safe')
+    setEnginePrediction(null)
+    setSubsystemPredictions([])
+    setEngineSensorData(playback.run.engine)
+    setSubsystemSensorData(playback.run.subsystems)
+  }
+
+  const openSavedSession = async (id: string) => {
+    setSessionError(null)
+    try {
+      const response = await fetch(`/api/sessions?id=${encodeURIComponent(id)}`)
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+      openPlayback(parseSession(await response.text()))
+    } catch (error) {
+      setSessionError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const openSessionFile = async (file: File) => {
+    setSessionError(null)
+    try {
+      openPlayback(parseSession(await file.text()))
+    } catch (error) {
+      setSessionError(`${file.name}: ${error instanceof SessionError ? error.message : String(error)}`)
+    }
+  }
+
+  const downloadSession = (session: Session) => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(session, null, 2)], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${session.id}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Playback advances one recorded second every 1/speed wall-clock seconds
+  useEffect(() => {
+    if (!playback || !playbackPlaying) return
+    if (simulationTime >= sessionDuration(playback)) {
+      setPlaybackPlaying(false)
+      return
+    }
+    const timeout = setTimeout(() => showSessionSecond(playback, simulationTime + 1), 1000 / speedMultiplier)
+    return () => clearTimeout(timeout)
+  }, [playback, playbackPlaying, simulationTime, speedMultiplier])
+
+  // Server runs: the panel only sends start/stop and shows what the stream says
+  const startServerRun = async (run: SimulationRun) => {
+    setServerError(null)
+    try {
+      const response = await fetch(`/api/aircraft/${encodeURIComponent(run.aircraft)}/simulation`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(run)
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+    } catch (error) {
+      setServerError(`Could not start ${run.aircraft} on the server: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const stopServerRun = async () => {
+    const tail = encodeURIComponent(aircraftId)
+    try {
+      const response = await fetch(serverSource === 'ingest' ? `/api/telemetry/${tail}` : `/api/aircraft/${tail}/simulation`, { method: 'DELETE' })
+      if (!response.ok && response.status !== 404) throw new Error(`HTTP ${response.status}`)
+    } catch (error) {
+      setServerError(`Could not stop ${aircraftId}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const beginRun = (run: SimulationRun) => runLocation === 'server' ? startServerRun(run) : startSimulation(run)
+
+  const applyServerStatus = (status: AircraftStatus) => {
+    setServerSource(status.source)
+    if (status.running) {
+      if (status.run) {
+        setLastRun(status.run)
+        setSeedInput(String(status.run.seed))
+        setProfileId(status.run.profile)
+        setFaults(status.run.faults)
+      }
+      if (!isSimulating) {
+        setSimulationTime(status.time)
+        setIsPaused(false)
+        setIsSimulating(true)
+      }
+    } else if (isSimulating) {
+      stopSimulation()
+    }
+  }
+
+  const streamConnection = useAircraftStream(runLocation === 'server' && isValidTail(aircraftId) ? aircraftId : null, {
+    onStatus: applyServerStatus,
+    onSnapshot: snapshot => {
+      setSimulationTime(snapshot.time)
+      setCurrentSpeed(snapshot.speed)
+      setCurrentAltitude(snapshot.altitude)
+      setFlightPhase(snapshot.phase)
+      setEngineSensorData(snapshot.engine)
+      setSubsystemSensorData(snapshot.subsystems)
+    },
+    onPrediction: record => {
+      const { subsystem } = record
+      if (subsystem === 'engine') {
+        // Keep showing the last engine value, but never as fresh model output
+        setEnginePrediction(prev => record.rul !== null
+          ? { prediction: record.rul, provenance: record.provenance, model_version: record.model_version }
+          : prev && { ...prev, provenance: 'cached' })
+        return
+      }
+      setSubsystemPredictions(prev => SEQUENCE_SUBSYSTEMS.flatMap(name => {
+        if (name === subsystem) return [predictionFromRecord(subsystem, record)]
+        const existing = prev.find(p => p.subsystem === name)
+        return existing ? [existing] : []
+      }))
+    },
+    onAlert: alert => setAlertLevel(alert.to),
+  })
+
+  // Real-time simulation effect: one simulated second every 1/speed wall-clock seconds
+  useEffect(() => {
+    let interval: NodeJS.Timeout | null = null
+    
+    if (isSimulating && !isPaused && runLocation === 'browser') {
+      interval = setInterval(() => tickRef.current(), 1000 / speedMultiplier)
     }
     
     return () => {
       if (interval) clearInterval(interval)
     }
-  }, [isSimulating, isPaused])
+  }, [isSimulating, isPaused, speedMultiplier, runLocation])
 
   const handleEnginePrediction = async () => {
+    logAction('manual-predict')
     setLoading(true)
     setError(null)
 
     try {
       // Convert engineSensorData object to array in the correct order (24 features)
-      const featuresArray = [
-        engineSensorData.setting_1,
-        engineSensorData.setting_2,
-        engineSensorData.setting_3,
-        engineSensorData.fan_inlet_temperature,
-        engineSensorData.lpc_pressure_ratio,
-        engineSensorData.hpc_pressure_ratio,
-        engineSensorData.lpt_temperature,
-        engineSensorData.hpt_temperature,
-        engineSensorData.fuel_flow_rate,
-        engineSensorData.oil_pressure,
-        engineSensorData.vibration_level,
-        engineSensorData.exhaust_gas_temperature,
-        engineSensorData.shaft_speed,
-        engineSensorData.ambient_air_pressure,
-        engineSensorData.ambient_air_temperature,
-        engineSensorData.total_air_pressure,
-        engineSensorData.static_pressure_ratio,
-        engineSensorData.torque,
-        engineSensorData.acceleration,
-        engineSensorData.compressor_discharge_temperature,
-        engineSensorData.combustion_chamber_pressure,
-        engineSensorData.fuel_temperature,
-        engineSensorData.nozzle_pressure_ratio,
-        engineSensorData.oil_temperature
-      ]
+      const featuresArray = getEngineFeatures()
       
       // Use the proxy API endpoint for engine predictions
       console.log('Calling engine LSTM API via proxy')
@@ -756,7 +1111,8 @@ export function PredictionPanel() {
         },
         body: JSON.stringify({ 
           subsystem: 'engine',
-          sequence: featuresArray 
+          sequence: featuresArray,
+          ...apiRouting()
         })
       })
 
@@ -764,17 +1120,20 @@ export function PredictionPanel() {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
-        throw new Error(`Engine API Error: ${response.status} ${response.statusText}. ${errorData.error || ''}`)
+        const detail = Array.isArray(errorData.issues) && errorData.issues.length > 0
+          ? formatIssue(errorData.issues[0])
+          : errorData.error || ''
+        throw new Error(`Engine API Error: ${response.status} ${response.statusText}. ${detail}`)
       }
 
-      const result = await response.json()
+      const result = predictionResponseSchema.parse(await response.json())
       console.log('Engine API Response:', result)
       
-      // Transform the response to match expected format
-      const transformedResult = {
-        prediction: result.predicted_engine_output || result.prediction || 0
-      }
-      setEnginePrediction(transformedResult)
+      setEnginePrediction({
+        prediction: result.prediction,
+        provenance: result.cached ? 'cached' : 'model',
+        model_version: result.model_version
+      })
       
     } catch (err) {
       console.error('Engine Prediction Error:', err)
@@ -794,41 +1153,40 @@ export function PredictionPanel() {
   const testConnection = async () => {
     setTestingConnection(true)
     setConnectionStatus('unknown')
+    setConnectionReport(null)
+    setModelInfo([])
+    setConnectionError(null)
     
     try {
-      console.log('Testing connection to LSTM API:', baseApiUrl)
-      
-      // Test the engine endpoint with realistic values
-      const testFeaturesArray = [
-        0.0023, 0.0003, 100.0, 518.67, 1.50, 15.85, 1400.0, 2400.0,
-        2200.0, 55.0, 0.15, 1800.0, 0.85, 14.7, 518.67, 16.2,
-        1.10, 850.0, 0.05, 700.0, 250.0, 75.0, 1.8, 180.0
-      ]
-      
-      const response = await fetch('/api/predict', {
+      // Readiness and model metadata instead of a dummy prediction
+      const request = {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ 
-          subsystem: 'engine',
-          sequence: testFeaturesArray 
-        })
-      })
+        body: JSON.stringify(apiRouting())
+      }
+      const [readyResponse, modelsResponse] = await Promise.all([
+        fetch('/api/ready', request),
+        fetch('/api/models', request),
+      ])
       
-      console.log('Test response status:', response.status)
+      const result = await readyResponse.json().catch(() => ({ error: 'Unknown error' }))
+      if (modelsResponse.ok) {
+        const { models } = await modelsResponse.json()
+        setModelInfo(models)
+      }
       
-      if (response.ok) {
-        const result = await response.json()
-        console.log('Test response data:', result)
+      if (readyResponse.ok) {
+        setConnectionReport(result)
         setConnectionStatus('success')
       } else {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
-        console.error('Test failed with status:', response.status, errorData)
+        if (result.subsystems) setConnectionReport(result)
+        setConnectionError(result.error || (result.subsystems ? 'some subsystems are not ready' : null))
         setConnectionStatus('failed')
       }
     } catch (err) {
-      console.error('Connection test failed:', err)
+      setConnectionError(err instanceof Error ? err.message : String(err))
       setConnectionStatus('failed')
     } finally {
       setTestingConnection(false)
@@ -849,6 +1207,12 @@ export function PredictionPanel() {
     }))
   }
 
+  // Run setup can't change mid-run, nor while a recorded session is played back
+  const controlsLocked = isSimulating || playback !== null
+
+  // Subsystems currently shown without model backing
+  const degradedSystems = subsystemPredictions.filter(p => isDegraded(p.provenance))
+
   const getSubsystemIcon = (subsystem: string) => {
     switch (subsystem) {
       case 'hydraulic': return Droplets
@@ -909,7 +1273,7 @@ export function PredictionPanel() {
       { key: 'control_surface_deflection', label: 'Control Surface Deflection', unit: '°' },
     ],
     cabin: [
-      { key: 'cabin_pressure', label: 'Cabin Pressure', unit: 'kPa' },
+      { key: 'cabin_pressure', label: 'Cabin Pressure', unit: 'psi' },
     ],
     altimeter: [
       { key: 'altimeter_drift', label: 'Altimeter Drift', unit: 'ft' },
@@ -925,7 +1289,7 @@ export function PredictionPanel() {
             Comprehensive Flight Systems Analysis
           </CardTitle>
           <p className="text-sm text-muted-foreground">
-            Real-time monitoring of engine and all critical flight subsystems during takeoff phase
+            Real-time monitoring of engine and all critical flight subsystems through every phase of flight
           </p>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -945,8 +1309,9 @@ export function PredictionPanel() {
                   onChange={(e) => {
                     setBaseApiUrl(e.target.value)
                     setConnectionStatus('unknown')
+                    setConnectionReport(null)
                   }}
-                  placeholder="https://my-lstm-api-537563823214.us-central1.run.app"
+                  placeholder="Server default"
                   className="flex-1"
                 />
                 <Button 
@@ -963,6 +1328,19 @@ export function PredictionPanel() {
                   )}
                 </Button>
               </div>
+              <Label htmlFor="api-auth" className="text-xs">Authorization Header (optional)</Label>
+              <Input
+                id="api-auth"
+                type="password"
+                value={apiAuthHeader}
+                onChange={(e) => {
+                  setApiAuthHeader(e.target.value)
+                  setConnectionStatus('unknown')
+                  setConnectionReport(null)
+                }}
+                placeholder="Bearer ..."
+                autoComplete="off"
+              />
               {connectionStatus !== 'unknown' && (
                 <div className={`text-xs flex items-center gap-1 ${
                   connectionStatus === 'success' ? 'text-green-600' : 'text-red-600'
@@ -970,18 +1348,82 @@ export function PredictionPanel() {
                   {connectionStatus === 'success' ? (
                     <>✅ Connection successful - API is reachable</>
                   ) : (
-                    <>❌ Connection failed - check URL and server status</>
+                    <>❌ Connection failed - {connectionError || 'check URL and server status'}</>
                   )}
                 </div>
               )}
+              {connectionReport && (
+                <div className="text-xs text-muted-foreground space-y-1">
+                  <div>
+                    Target: {Array.from(new Set(connectionReport.subsystems.map((check) => check.target))).join(', ')} • Latency: {connectionReport.latency_ms} ms
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {connectionReport.subsystems.map((check) => {
+                      const model = modelInfo.find((info) => info.subsystem === check.subsystem)
+                      return (
+                        <Badge
+                          key={check.subsystem}
+                          variant={check.ready ? 'outline' : 'destructive'}
+                          className="text-xs"
+                          title={check.error ?? (model && `Input [${model.input_shape.join(' × ')}]: ${model.features.map((f) => f.unit ? `${f.name} (${f.unit})` : f.name).join(', ')}`)}
+                        >
+                          {check.ready ? '✓' : '✗'} {check.subsystem} {check.latency_ms}ms
+                          {model?.model_version && <> • {model.model_version}</>}
+                        </Badge>
+                      )
+                    })}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
+          {/* Degraded Mode Banner */}
+          {degradedSystems.length > 0 && (
+            <div className="p-3 rounded-lg border-2 border-amber-400 bg-amber-50 text-amber-900 animate-pulse">
+              <div className="flex items-center gap-2 font-semibold text-sm">
+                <AlertTriangle className="h-4 w-4" />
+                DEGRADED MODE - model output unavailable
+              </div>
+              <p className="text-xs mt-1">
+                {degradedSystems.map(p => `${p.subsystem} (${PROVENANCE_LABELS[p.provenance].toLowerCase()})`).join(', ')}.
+                These values are not LSTM predictions and must not be used for go/no-go decisions.
+              </p>
+            </div>
+          )}
+
+          {/* Model Endpoint Health */}
+          {breakers.length > 0 && (
+            <div className="space-y-2 p-4 bg-muted/50 rounded-lg border">
+              <h4 className="font-medium text-sm flex items-center gap-2">
+                <Activity className="h-4 w-4" />
+                Model Endpoint Health
+              </h4>
+              <div className="flex flex-wrap gap-1">
+                {breakers.map((breaker) => (
+                  <Badge
+                    key={breaker.key}
+                    variant="outline"
+                    className={`text-xs ${
+                      breaker.state === 'open' ? 'bg-red-50 text-red-700 border-red-300' :
+                      breaker.state === 'half-open' ? 'bg-yellow-50 text-yellow-800 border-yellow-300' :
+                      'bg-green-50 text-green-700 border-green-300'
+                    }`}
+                    title={`${breaker.target}${breaker.last_failure ? ` - last failure: ${breaker.last_failure}` : ''}`}
+                  >
+                    {breaker.state === 'open' ? '🔴' : breaker.state === 'half-open' ? '🟡' : '🟢'} {breaker.subsystem}
+                    {breaker.state !== 'closed' && ` (${breaker.state})`}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Real-Time Simulation Controls */}
           <div className="space-y-4 p-4 bg-gradient-to-r from-blue-50 to-purple-50 rounded-lg border-2 border-blue-200">
             <div className="flex items-center justify-between">
               <h4 className="font-medium text-blue-900 flex items-center gap-2">
-                🛫 Real-Time Takeoff Simulation
+                🛫 Real-Time Flight Simulation
               </h4>
               <div className={`px-3 py-1 rounded-full text-sm font-medium ${
                 alertLevel === 'danger' ? 'bg-red-100 text-red-800 animate-pulse' :
@@ -993,66 +1435,604 @@ export function PredictionPanel() {
               </div>
             </div>
             
-            {isSimulating && (
+            {(isSimulating || playback) && (
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
-                  <span>Time: {simulationTime}s</span>
+                  <span>Time: {simulationTime}s{lastRun && ` • Seed ${lastRun.seed}`}{lastRun?.scenario && ` • ${lastRun.scenario}`}</span>
                   <span>Speed: {currentSpeed.toFixed(0)} knots</span>
-                  <span>Phase: {currentSpeed < 140 ? 'Pre-V1' : currentSpeed < 175 ? 'V1 Critical' : 'Post-V1'}</span>
+                  <span>Altitude: {currentAltitude.toFixed(0)} ft</span>
+                  <span>
+                    Phase: {flightPhase ? PHASE_LABELS[flightPhase] : '--'}
+                    {flightPhase === 'takeoff' && ` (${currentSpeed < 140 ? 'Pre-V1' : currentSpeed < 175 ? 'V1 Critical' : 'Post-V1'})`}
+                  </span>
                 </div>
+                {replayUnit && replayCycle && (
+                  <div className="flex justify-between text-xs text-blue-900">
+                    <span>C-MAPSS {replayUnit.split} unit {replayUnit.unit}</span>
+                    <span>Cycle {replayCycle.cycle} / {replayUnit.cycles[replayUnit.cycles.length - 1].cycle}</span>
+                    <span>True RUL: {replayCycle.rul} cycles</span>
+                  </div>
+                )}
+                {historyFill < sensorHistory.current.capacity && (
+                  <div className="space-y-1 text-xs text-amber-800">
+                    <div className="flex justify-between">
+                      <span>⏳ Sensor history warming up: {historyFill}/{sensorHistory.current.capacity} samples</span>
+                      <span>
+                        {windowPadding === 'none'
+                          ? 'subsystem predictions wait for a full window'
+                          : `windows padded with ${windowPadding === 'zeros' ? 'zeros' : 'the first sample'}`}
+                      </span>
+                    </div>
+                    <div className="w-full bg-amber-100 rounded-full h-1">
+                      <div
+                        className="h-1 rounded-full bg-amber-500 transition-all duration-1000"
+                        style={{ width: `${(historyFill / sensorHistory.current.capacity) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+                {syntheticUnit && syntheticRow && (
+                  <div className="flex justify-between text-xs text-blue-900">
+                    <span>Synthetic {syntheticUnit.split} unit {syntheticUnit.unit}</span>
+                    <span>Cycle {syntheticRow.cycle} / {syntheticUnit.rows[syntheticUnit.rows.length - 1].cycle}</span>
+                  </div>
+                )}
+                {arincReplay && arincCapture && arincFile && (
+                  <div className="flex justify-between text-xs text-blue-900">
+                    <span>ARINC 429 capture {arincFile.name}</span>
+                    <span>Second {simulationTime} / {arincCapture.seconds.length}</span>
+                  </div>
+                )}
+                {/* Progress through the flight profile; the takeoff roll keeps its V1 colouring */}
                 <div className="w-full bg-gray-200 rounded-full h-2">
                   <div 
                     className={`h-2 rounded-full transition-all duration-1000 ${
+                      flightPhase !== 'takeoff' ? 'bg-blue-500' :
                       currentSpeed < 140 ? 'bg-green-500' : 
                       currentSpeed < 175 ? 'bg-yellow-500' : 'bg-red-500'
                     }`}
-                    style={{ width: `${Math.min(100, (currentSpeed / 175) * 100)}%` }}
+                    style={{ width: `${Math.min(100, (simulationTime / profileDuration(getFlightProfile(lastRun?.profile ?? profileId))) * 100)}%` }}
                   />
                 </div>
               </div>
             )}
             
+            {/* Scenario files - shared, scripted runs */}
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-end gap-2 text-xs text-blue-900">
+                <div className="space-y-1">
+                  <Label htmlFor="scenario" className="text-xs">Scenario</Label>
+                  <Select value={selectedScenario} onValueChange={setSelectedScenario} disabled={controlsLocked}>
+                    <SelectTrigger id="scenario" className="h-8 w-64 text-sm">
+                      <SelectValue placeholder={scenarios.length ? 'Choose a scenario' : 'No scenarios found'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {scenarios.map((file) => (
+                        <SelectItem key={file.id} value={file.id}>{file.scenario.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    const file = scenarios.find(item => item.id === selectedScenario)
+                    if (file) loadScenario(file)
+                  }}
+                  disabled={controlsLocked || !selectedScenario}
+                  title="Fill the profile, seed, faults and starting sensors from the scenario"
+                >
+                  📋 Load
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    const file = scenarios.find(item => item.id === selectedScenario)
+                    if (file) beginRun(scenarioRun(file))
+                  }}
+                  disabled={controlsLocked || !selectedScenario || replaying}
+                  title={replaying ? 'Switch off dataset replay to run a scenario' : 'Start the scenario exactly as written'}
+                >
+                  ▶️ Run Scenario
+                </Button>
+                <span className="pb-2">Aircraft: {lastRun?.aircraft ?? aircraftId}</span>
+              </div>
+              {(() => {
+                const file = scenarios.find(item => item.id === selectedScenario)
+                if (!file) return null
+                return (
+                  <div className="text-xs text-blue-900 space-y-1">
+                    {file.scenario.description && <p>{file.scenario.description}</p>}
+                    <p className="text-blue-700">
+                      {file.file} • {file.scenario.aircraft} • {getFlightProfile(file.scenario.profile).name} • seed {file.scenario.seed} • {file.scenario.faults.length} fault(s)
+                    </p>
+                    {file.scenario.expect.length > 0 && (
+                      <ul className="list-disc pl-4">
+                        {file.scenario.expect.map((expectation, index) => (
+                          <li key={index}>Expect: {expectation.description ?? describeExpectation(expectation)}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )
+              })()}
+              {scenarioErrors.map((item) => (
+                <p key={item.file} className="text-xs text-red-600">⚠️ {item.file}: {item.error}</p>
+              ))}
+            </div>
+
+            {/* Flight profile and seed - the same profile, seed and starting sensors reproduce a run exactly */}
+            <div className="flex flex-wrap items-end gap-2 text-xs text-blue-900">
+              <div className="space-y-1">
+                <Label htmlFor="flight-profile" className="text-xs">Flight profile</Label>
+                <Select value={profileId} onValueChange={setProfileId} disabled={controlsLocked}>
+                  <SelectTrigger id="flight-profile" className="h-8 w-56 text-sm" title={getFlightProfile(profileId).description}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FLIGHT_PROFILES.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sim-seed" className="text-xs">Seed</Label>
+                <Input
+                  id="sim-seed"
+                  inputMode="numeric"
+                  value={seedInput}
+                  onChange={(e) => setSeedInput(e.target.value)}
+                  placeholder="random"
+                  disabled={controlsLocked}
+                  className="h-8 w-32 text-sm"
+                />
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setSeedInput(String(randomSeed()))}
+                disabled={controlsLocked}
+                title="New random seed"
+              >
+                🎲
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => lastRun && beginRun(lastRun)}
+                disabled={controlsLocked || !lastRun}
+                title="Restart with the previous run's seed, flight profile, faults and starting sensor values"
+              >
+                🔁 Re-run with same seed{lastRun && ` (${lastRun.seed})`}
+              </Button>
+              {seedInput.trim() !== '' && parseSeed(seedInput) === null && (
+                <span className="pb-2 text-red-600">Seed must be a non-negative integer</span>
+              )}
+            </div>
+
+            {/* Run location - server runs are streamed to every dashboard watching the same tail number */}
+            <div className="flex flex-wrap items-end gap-2 text-xs text-blue-900">
+              <div className="space-y-1">
+                <Label htmlFor="run-location" className="text-xs">Run on</Label>
+                <Select
+                  value={runLocation}
+                  onValueChange={(value: 'browser' | 'server') => {
+                    // A local run's state must not be recorded against the server's clock
+                    simulationRef.current = null
+                    setServerError(null)
+                    setRunLocation(value)
+                  }}
+                  disabled={controlsLocked}
+                >
+                  <SelectTrigger id="run-location" className="h-8 w-40 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="browser">This browser</SelectItem>
+                    <SelectItem value="server">Server (shared)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="tail-number" className="text-xs">Tail number</Label>
+                <Input
+                  id="tail-number"
+                  value={aircraftId}
+                  onChange={(e) => setAircraftId(e.target.value.toUpperCase())}
+                  disabled={controlsLocked}
+                  className="h-8 w-28 text-sm"
+                />
+              </div>
+              {runLocation === 'server' && (
+                <Badge variant="outline" className={`mb-1 ${streamConnection === 'open' ? 'bg-green-50 text-green-700 border-green-300' : 'bg-yellow-50 text-yellow-800 border-yellow-300'}`}>
+                  {streamConnection === 'open' ? `📡 Watching ${aircraftId}${isSimulating && serverSource === 'ingest' ? ' (ingested telemetry)' : ''}` :
+                   streamConnection === 'reconnecting' ? '📡 Reconnecting...' :
+                   streamConnection === 'connecting' ? '📡 Connecting...' : '📡 Not connected'}
+                </Badge>
+              )}
+              {!isValidTail(aircraftId) && (
+                <span className="pb-2 text-red-600">Tail number must be 1-10 letters, digits or dashes</span>
+              )}
+              {runLocation === 'server' && replaying && (
+                <span className="pb-2 text-amber-700">Dataset replays run in the browser only</span>
+              )}
+            </div>
+            {serverError && <p className="text-xs text-red-600">{serverError}</p>}
+
+            {/* Fault Injection - faults distort the simulated sensors from their onset on */}
+            <div className="space-y-2 p-3 rounded-lg border border-orange-200 bg-orange-50/50">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-orange-900">⚠️ Fault Injection</span>
+                <span className="text-xs text-orange-800">
+                  {faults.length} scheduled{replaying && ' • replayed data is not faulted'}
+                </span>
+              </div>
+              <div className="flex flex-wrap items-end gap-2 text-xs text-orange-900">
+                <div className="space-y-1">
+                  <Label htmlFor="fault-kind" className="text-xs">Fault</Label>
+                  <Select
+                    value={faultDraft.kind}
+                    onValueChange={(value) => setFaultDraft(prev => ({ ...prev, kind: value as FaultKind }))}
+                    disabled={controlsLocked}
+                  >
+                    <SelectTrigger id="fault-kind" className="h-8 w-52 text-sm" title={FAULT_CATALOG[faultDraft.kind].description}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FAULT_KINDS.map((kind) => (
+                        <SelectItem key={kind} value={kind}>{FAULT_CATALOG[kind].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="fault-onset" className="text-xs">Onset (s)</Label>
+                  <Input
+                    id="fault-onset"
+                    type="number"
+                    min={0}
+                    value={faultDraft.onset}
+                    onChange={(e) => setFaultDraft(prev => ({ ...prev, onset: e.target.value }))}
+                    disabled={controlsLocked}
+                    className="h-8 w-20 text-sm"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="fault-ramp" className="text-xs">Ramp</Label>
+                  <Select
+                    value={faultDraft.ramp}
+                    onValueChange={(value) => setFaultDraft(prev => ({ ...prev, ramp: value as FaultRamp }))}
+                    disabled={controlsLocked}
+                  >
+                    <SelectTrigger id="fault-ramp" className="h-8 w-32 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FAULT_RAMPS.map((ramp) => (
+                        <SelectItem key={ramp} value={ramp}>
+                          {ramp === 'step' ? 'Step' : ramp === 'linear' ? 'Linear' : 'Exponential'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="fault-ramp-seconds" className="text-xs">Ramp (s)</Label>
+                  <Input
+                    id="fault-ramp-seconds"
+                    type="number"
+                    min={0}
+                    value={faultDraft.ramp === 'step' ? '0' : faultDraft.rampSeconds}
+                    onChange={(e) => setFaultDraft(prev => ({ ...prev, rampSeconds: e.target.value }))}
+                    disabled={controlsLocked || faultDraft.ramp === 'step'}
+                    className="h-8 w-20 text-sm"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="fault-severity" className="text-xs">Severity (%)</Label>
+                  <Input
+                    id="fault-severity"
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={faultDraft.severity}
+                    onChange={(e) => setFaultDraft(prev => ({ ...prev, severity: e.target.value }))}
+                    disabled={controlsLocked}
+                    className="h-8 w-20 text-sm"
+                  />
+                </div>
+                <Button variant="outline" size="sm" onClick={addFault} disabled={controlsLocked}>
+                  ➕ Schedule Fault
+                </Button>
+              </div>
+              {faultError && <p className="text-xs text-red-600">{faultError}</p>}
+              {faults.length > 0 && (
+                <ul className="space-y-1 text-xs text-orange-900">
+                  {faults.map((fault) => {
+                    const intensity = isSimulating ? faultIntensity(fault, simulationTime) : 0
+                    return (
+                      <li key={fault.id} className="flex items-center justify-between gap-2 rounded border border-orange-200 bg-white px-2 py-1">
+                        <span>
+                          <span className="font-medium">{FAULT_CATALOG[fault.kind].label}</span>
+                          {' '}at {fault.onset_s}s, {fault.ramp === 'step' ? 'step' : `${fault.ramp} over ${fault.ramp_s}s`}, {Math.round(fault.severity * 100)}% severity
+                        </span>
+                        {isSimulating ? (
+                          <Badge variant="outline" className={intensity > 0 ? 'bg-red-50 text-red-700 border-red-300' : 'text-gray-500'}>
+                            {intensity > 0 ? `Active ${Math.round(intensity * 100)}%` : 'Pending'}
+                          </Badge>
+                        ) : !playback && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2"
+                            onClick={() => setFaults(prev => prev.filter(item => item.id !== fault.id))}
+                            title="Remove fault"
+                          >
+                            ✕
+                          </Button>
+                        )}
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+            </div>
+
+            {/* Dataset Replay */}
+            <div className="space-y-2 text-xs text-blue-900">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="cmapss-replay"
+                  checked={dataSource === 'cmapss'}
+                  onCheckedChange={(checked) => setDataSource(checked ? 'cmapss' : 'simulated')}
+                  disabled={controlsLocked}
+                />
+                <Label htmlFor="cmapss-replay" className="text-xs">
+                  Replay dataset unit (NASA C-MAPSS) instead of simulated engine sensors
+                </Label>
+              </div>
+              {dataSource === 'cmapss' && (
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="replay-split" className="text-xs">Split</Label>
+                    <Select
+                      value={replaySplit}
+                      onValueChange={(value) => setReplaySplit(value as DatasetSplit)}
+                      disabled={controlsLocked}
+                    >
+                      <SelectTrigger id="replay-split" className="h-8 w-28 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="train">PM_train</SelectItem>
+                        <SelectItem value="test">PM_test</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="replay-unit" className="text-xs">Unit ID</Label>
+                    <Input
+                      id="replay-unit"
+                      type="number"
+                      min={1}
+                      value={replayUnitId}
+                      onChange={(e) => setReplayUnitId(e.target.value)}
+                      disabled={controlsLocked}
+                      className="h-8 w-20 text-sm"
+                    />
+                  </div>
+                  <Button variant="outline" size="sm" onClick={loadReplayUnit} disabled={controlsLocked}>
+                    Load Unit
+                  </Button>
+                  {replayUnit && (
+                    <span className="pb-2">
+                      ✅ {replayUnit.split} unit {replayUnit.unit}: {replayUnit.cycles.length} cycles
+                    </span>
+                  )}
+                  {replayError && <span className="pb-2 text-red-600">❌ {replayError}</span>}
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="synthetic-replay"
+                  checked={subsystemSource === 'synthetic'}
+                  onCheckedChange={(checked) => setSubsystemSource(checked ? 'synthetic' : 'simulated')}
+                  disabled={controlsLocked}
+                />
+                <Label htmlFor="synthetic-replay" className="text-xs">
+                  Replay synthetic per-subsystem unit instead of simulated subsystem sensors
+                </Label>
+              </div>
+              {subsystemSource === 'synthetic' && (
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="synthetic-split" className="text-xs">Split</Label>
+                    <Select
+                      value={syntheticSplit}
+                      onValueChange={(value) => setSyntheticSplit(value as DatasetSplit)}
+                      disabled={controlsLocked}
+                    >
+                      <SelectTrigger id="synthetic-split" className="h-8 w-28 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="train">train CSV</SelectItem>
+                        <SelectItem value="test">test CSV</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="synthetic-unit" className="text-xs">Unit ID</Label>
+                    <Input
+                      id="synthetic-unit"
+                      type="number"
+                      min={1}
+                      value={syntheticUnitId}
+                      onChange={(e) => setSyntheticUnitId(e.target.value)}
+                      disabled={controlsLocked}
+                      className="h-8 w-20 text-sm"
+                    />
+                  </div>
+                  <Button variant="outline" size="sm" onClick={loadSyntheticUnit} disabled={controlsLocked}>
+                    Load Unit
+                  </Button>
+                  {syntheticUnit && (
+                    <span className="pb-2">
+                      ✅ {syntheticUnit.split} unit {syntheticUnit.unit}: {syntheticUnit.rows.length} cycles
+                    </span>
+                  )}
+                  {syntheticError && <span className="pb-2 text-red-600">❌ {syntheticError}</span>}
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="arinc-replay"
+                  checked={arincReplay}
+                  onCheckedChange={setArincReplay}
+                  disabled={controlsLocked}
+                />
+                <Label htmlFor="arinc-replay" className="text-xs">
+                  Replay ARINC 429 bus capture over the sensor values it carries
+                </Label>
+              </div>
+              {arincReplay && (
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-end gap-2">
+                    <div className="space-y-1">
+                      <Label htmlFor="arinc-capture" className="text-xs">Capture (hex or CSV)</Label>
+                      <Input
+                        id="arinc-capture"
+                        type="file"
+                        accept=".csv,.txt,.hex"
+                        className="h-8 w-56 text-xs"
+                        disabled={controlsLocked}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0]
+                          if (file) openArincCapture(file)
+                          e.target.value = ''
+                        }}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="arinc-labels" className="text-xs">Label map (JSON)</Label>
+                      <Input
+                        id="arinc-labels"
+                        type="file"
+                        accept=".json,application/json"
+                        className="h-8 w-56 text-xs"
+                        disabled={controlsLocked}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0]
+                          if (file) openArincLabelMap(file)
+                          e.target.value = ''
+                        }}
+                      />
+                    </div>
+                    <span className="pb-2">Label map: {arincLabelMap.name} ({arincLabelMap.map.labels.length} labels)</span>
+                  </div>
+                  {arincCapture && arincFile && (
+                    <p>
+                      ✅ {arincFile.name}: {arincCapture.stats.decoded}/{arincCapture.stats.words} words decoded over {arincCapture.seconds.length}s
+                      {' '}({arincCapture.stats.fields.join(', ') || 'no mapped fields'})
+                      {arincCapture.stats.parity_errors > 0 && `, ${arincCapture.stats.parity_errors} parity errors`}
+                      {arincCapture.stats.unmapped > 0 && `, ${arincCapture.stats.unmapped} unmapped`}
+                      {Object.entries(arincCapture.stats.not_normal).map(([status, count]) => `, ${count} ${status}`).join('')}
+                    </p>
+                  )}
+                  {arincCapture && arincCapture.errors.length > 0 && (
+                    <p className="text-amber-700">⚠️ {arincCapture.errors.length} unreadable lines skipped, e.g. {arincCapture.errors[0]}</p>
+                  )}
+                  {arincError && <p className="text-red-600">❌ {arincError}</p>}
+                </div>
+              )}
+              {(dataSource === 'cmapss' || subsystemSource === 'synthetic') && (
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="replay-rate" className="text-xs">Replay rate (cycles / second)</Label>
+                  <Input
+                    id="replay-rate"
+                    type="number"
+                    min={1}
+                    max={50}
+                    value={replayRate}
+                    onChange={(e) => setReplayRate(Math.max(1, Math.round(Number(e.target.value)) || 1))}
+                    disabled={controlsLocked}
+                    className="h-8 w-20 text-sm"
+                  />
+                </div>
+              )}
+            </div>
+            
+            <div className="flex items-center gap-2 text-xs text-blue-900">
+              <Label htmlFor="window-padding" className="text-xs">Warm-up padding for subsystem windows</Label>
+              <Select
+                value={windowPadding}
+                onValueChange={(value) => setWindowPadding(value as WindowPadding)}
+              >
+                <SelectTrigger id="window-padding" className="h-8 w-48 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WINDOW_PADDINGS.map((padding) => (
+                    <SelectItem key={padding} value={padding}>
+                      {padding === 'repeat-first' ? 'Repeat first sample' : padding === 'zeros' ? 'Zeros' : 'None (wait for 50 samples)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <div className="flex items-center gap-2 text-xs text-blue-900">
+              <Switch
+                id="heuristic-fallback"
+                checked={heuristicFallback}
+                onCheckedChange={setHeuristicFallback}
+              />
+              <Label htmlFor="heuristic-fallback" className="text-xs">
+                Show heuristic estimates when a model is unavailable (marked as fallback)
+              </Label>
+            </div>
+            
             <div className="flex gap-2">
               <Button 
                 onClick={() => {
-                  if (!isSimulating) {
-                    // Starting simulation - reset to safe state
-                    setAlertLevel('safe')
-                    setEnginePrediction(null)
-                    setSubsystemPredictions([])
-                    setSimulationTime(0)
-                    setCurrentSpeed(0)
-                    setIsPaused(false)
+                  if (isSimulating && runLocation === 'server') {
+                    stopServerRun()
+                  } else if (isSimulating) {
+                    stopSimulation()
+                    setReplayCycle(null)
                   } else {
-                    // Stopping simulation - reset everything
-                    setIsSimulating(false)
-                    setIsPaused(false)
-                    setSimulationTime(0)
-                    setCurrentSpeed(0)
-                    setAlertLevel('safe')
-                    setEnginePrediction(null)
-                    setSubsystemPredictions([])
-                  }
-                  if (!isSimulating) {
-                    setIsSimulating(true)
-                  } else {
-                    setIsSimulating(false)
+                    beginRun({
+                      seed: parseSeed(seedInput) ?? randomSeed(),
+                      profile: profileId,
+                      faults,
+                      engine: engineSensorData,
+                      subsystems: subsystemSensorData,
+                      aircraft: aircraftId,
+                    })
                   }
                 }}
-                disabled={loading}
+                disabled={loading || playback !== null || (!isSimulating && ((runLocation === 'server' && (replaying || !isValidTail(aircraftId))) || (dataSource === 'cmapss' && !replayUnit) || (subsystemSource === 'synthetic' && !syntheticUnit) || (arincReplay && !arincCapture) || (seedInput.trim() !== '' && parseSeed(seedInput) === null)))}
                 variant={isSimulating ? "destructive" : "default"}
                 className="flex-1"
               >
                 {isSimulating ? (
                   <>🛑 Stop Simulation</>
+                ) : replaying ? (
+                  <>📼 Start Unit Replay</>
                 ) : (
-                  <>🚀 Start Takeoff Simulation</>
+                  <>🚀 Start Flight Simulation</>
                 )}
               </Button>
               
-              {isSimulating && (
+              {isSimulating && runLocation === 'browser' && (
                 <Button 
-                  onClick={() => setIsPaused(!isPaused)}
+                  onClick={() => {
+                    logAction(isPaused ? 'resume' : 'pause')
+                    setIsPaused(!isPaused)
+                  }}
                   variant="secondary"
                   className="flex-1"
                 >
@@ -1063,10 +2043,22 @@ export function PredictionPanel() {
                   )}
                 </Button>
               )}
+
+              {isSimulating && isPaused && (
+                <Button
+                  onClick={() => {
+                    logAction('step')
+                    tickRef.current()
+                  }}
+                  variant="secondary"
+                >
+                  ⏭️ Step
+                </Button>
+              )}
               
               <Button 
                 onClick={handleEnginePrediction} 
-                disabled={loading || (isSimulating && !isPaused)}
+                disabled={loading || playback !== null || (isSimulating && !isPaused)}
                 variant="outline"
                 className="flex-1"
               >
@@ -1083,6 +2075,135 @@ export function PredictionPanel() {
                 )}
               </Button>
             </div>
+
+            {/* Time controls: playback speed, and rewinding through the recorded run while paused */}
+            <div className="flex flex-wrap items-center gap-2 text-xs text-blue-900">
+              <span>Speed</span>
+              {SPEED_MULTIPLIERS.map(multiplier => (
+                <Button
+                  key={multiplier}
+                  size="sm"
+                  variant={speedMultiplier === multiplier ? "default" : "outline"}
+                  className="h-7 px-2"
+                  disabled={runLocation === 'server' && !playback}
+                  onClick={() => {
+                    setSpeedMultiplier(multiplier)
+                    logAction('speed', `${multiplier}x`)
+                  }}
+                >
+                  {multiplier}x
+                </Button>
+              ))}
+            </div>
+            {isSimulating && isPaused && timelineEnd > 0 && (
+              <div className="space-y-1 text-xs text-blue-900">
+                <div className="flex justify-between">
+                  <span>⏪ Timeline</span>
+                  <span>T:{simulationTime}s / {timelineEnd}s recorded</span>
+                </div>
+                <Slider
+                  min={0}
+                  max={timelineEnd}
+                  step={1}
+                  value={[simulationTime]}
+                  onValueChange={([time]) => restoreFrame(time)}
+                  onValueCommit={([time]) => logAction('rewind', `to T:${time}s`)}
+                />
+                {simulationTime < timelineEnd && (
+                  <div className="text-muted-foreground">Resuming or stepping from here discards the recording after T:{simulationTime}s</div>
+                )}
+              </div>
+            )}
+
+            {/* Recorded sessions - every run is saved and can be downloaded or played back read-only */}
+            <div className="space-y-2 text-xs text-blue-900">
+              {playback ? (
+                <div className="space-y-2 rounded border border-blue-300 bg-white p-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="font-medium">📼 Playback (read-only): {playback.id}</span>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        className="h-7"
+                        onClick={() => {
+                          if (simulationTime >= sessionDuration(playback)) showSessionSecond(playback, 0)
+                          setPlaybackPlaying(!playbackPlaying)
+                        }}
+                      >
+                        {playbackPlaying ? '⏸️ Pause' : '▶️ Play'}
+                      </Button>
+                      <Button size="sm" variant="outline" className="h-7" onClick={() => downloadSession(playback)}>
+                        ⬇️ Download
+                      </Button>
+                      <Button size="sm" variant="outline" className="h-7" onClick={closePlayback}>
+                        ✕ Close
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>
+                      Seed {playback.run.seed} • {getFlightProfile(playback.run.profile).name} • {playback.predictions.length} predictions • {playback.alerts.length} alert changes • {playback.actions.length} operator actions
+                    </span>
+                    <span>T:{simulationTime}s / {sessionDuration(playback)}s</span>
+                  </div>
+                  <Slider
+                    min={0}
+                    max={Math.max(1, sessionDuration(playback))}
+                    step={1}
+                    value={[simulationTime]}
+                    onValueChange={([time]) => showSessionSecond(playback, time)}
+                  />
+                </div>
+              ) : lastSession && !isSimulating && (
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span>
+                    Last session: {lastSession.id} ({sessionDuration(lastSession)}s, {lastSession.end_reason})
+                  </span>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" className="h-7" onClick={() => openPlayback(lastSession)}>
+                      📼 Play Back
+                    </Button>
+                    <Button size="sm" variant="outline" className="h-7" onClick={() => downloadSession(lastSession)}>
+                      ⬇️ Download
+                    </Button>
+                  </div>
+                </div>
+              )}
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="saved-session" className="text-xs">Saved sessions</Label>
+                  <Select value="" onValueChange={openSavedSession} disabled={isSimulating || sessions.length === 0}>
+                    <SelectTrigger id="saved-session" className="h-8 w-72 text-sm">
+                      <SelectValue placeholder={sessions.length ? 'Play back a saved session' : 'No saved sessions'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sessions.map((session) => (
+                        <SelectItem key={session.id} value={session.id}>
+                          {session.id} ({session.duration_s}s{session.worst_alert !== 'safe' ? `, ${session.worst_alert}` : ''})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="session-file" className="text-xs">Load bundle</Label>
+                  <Input
+                    id="session-file"
+                    type="file"
+                    accept=".json,application/json"
+                    className="h-8 w-64 text-xs"
+                    disabled={isSimulating}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      if (file) openSessionFile(file)
+                      e.target.value = ''
+                    }}
+                  />
+                </div>
+              </div>
+              {sessionError && <p className="text-red-600">{sessionError}</p>}
+            </div>
           </div>
 
           {/* Tabbed Interface for Different Systems */}
@@ -1129,6 +2250,7 @@ export function PredictionPanel() {
                       step={key.includes('setting') ? "0.0001" : "0.01"}
                       value={engineSensorData[key]}
                       onChange={(e) => handleEngineInputChange(key, e.target.value)}
+                      readOnly={playback !== null}
                       className="h-8 text-sm"
                     />
                   </div>
@@ -1152,6 +2274,7 @@ export function PredictionPanel() {
                         step="0.01"
                         value={subsystemSensorData[key as keyof SubsystemSensorData]}
                         onChange={(e) => handleSubsystemInputChange(key as keyof SubsystemSensorData, e.target.value)}
+                        readOnly={playback !== null}
                         className="h-8 text-sm"
                       />
                     </div>
@@ -1174,6 +2297,21 @@ export function PredictionPanel() {
             </Card>
           )}
 
+          {/* Dataset Replay: predicted vs ground-truth RUL */}
+          {replayUnit && replayHistory.length > 0 && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <TrendingUp className="h-4 w-4" />
+                  C-MAPSS {replayUnit.split} unit {replayUnit.unit} - Predicted vs True RUL
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RulReplayChart points={replayHistory} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* System Status Overview */}
           {(enginePrediction || subsystemPredictions.length > 0) && (
             <div className="space-y-4">
@@ -1186,6 +2324,9 @@ export function PredictionPanel() {
                     <CardTitle className="text-base flex items-center gap-2">
                       <Activity className="h-4 w-4" />
                       Engine System - Primary RUL Analysis
+                      <div className="ml-auto">
+                        <ProvenanceBadge provenance={enginePrediction.provenance} modelVersion={enginePrediction.model_version} />
+                      </div>
                     </CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-4">
@@ -1199,6 +2340,11 @@ export function PredictionPanel() {
                           <p className="text-xs text-blue-600 mt-1">
                             ~{(enginePrediction.prediction * 1.5).toFixed(0)} flight hours*
                           </p>
+                          {replayCycle && (
+                            <p className="text-xs text-green-700 mt-1">
+                              Ground truth: {replayCycle.rul} cycles (error {(enginePrediction.prediction - replayCycle.rul) >= 0 ? '+' : ''}{(enginePrediction.prediction - replayCycle.rul).toFixed(0)})
+                            </p>
+                          )}
                         </div>
                       </div>
                       <div className="p-4 bg-orange-50 rounded-lg border border-orange-200">
@@ -1226,15 +2372,28 @@ export function PredictionPanel() {
                   {subsystemPredictions.map((pred) => {
                     const IconComponent = getSubsystemIcon(pred.subsystem)
                     return (
-                      <Card key={pred.subsystem} className={`border-2 ${getSubsystemColor(pred.risk_level)}`}>
+                      <Card
+                        key={pred.subsystem}
+                        className={`border-2 ${getSubsystemColor(pred.risk_level)} ${pred.provenance !== 'model' ? 'border-dashed' : ''}`}
+                      >
                         <CardContent className="p-4">
                           <div className="flex items-center gap-2 mb-2">
                             <IconComponent className="h-4 w-4" />
                             <h4 className="font-medium capitalize">{pred.subsystem}</h4>
+                            <div className="ml-auto">
+                              <ProvenanceBadge provenance={pred.provenance} modelVersion={pred.model_version} />
+                            </div>
                           </div>
                           <div className="space-y-1">
-                            <p className="text-lg font-bold">{pred.rul.toFixed(0)} cycles</p>
+                            <p className={`text-lg font-bold ${isDegraded(pred.provenance) ? 'italic opacity-70' : ''}`}>
+                              {pred.rul !== null ? `${pred.provenance === 'fallback-heuristic' ? '~' : ''}${pred.rul.toFixed(0)} cycles` : '— cycles'}
+                            </p>
                             <p className="text-sm">{pred.status}</p>
+                            {pred.truth && (
+                              <p className={`text-xs ${pred.truth.failure ? 'text-red-700 font-semibold' : 'text-green-700'}`}>
+                                True RUL: {pred.truth.rul} cycles{pred.truth.failure ? ' • ⚠️ failure flagged' : ''}
+                              </p>
+                            )}
                             <Badge 
                               variant={pred.risk_level === 'danger' ? 'destructive' : 
                                       pred.risk_level === 'warning' ? 'secondary' : 'default'}
@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge"
+import { PROVENANCE_LABELS, type PredictionProvenance } from "@/lib/prediction/provenance"
+
+const PROVENANCE_STYLES: Record<PredictionProvenance, string> = {
+  model: 'bg-blue-50 text-blue-700 border-blue-200',
+  cached: 'bg-slate-100 text-slate-700 border-slate-300',
+  'fallback-heuristic': 'bg-amber-100 text-amber-900 border-amber-400 border-dashed',
+  unavailable: 'bg-gray-100 text-gray-600 border-gray-400 border-dashed',
+}
+
+// Marks where a displayed RUL came from, e.g. "Model v2.1" or "Heuristic fallback"
+export function ProvenanceBadge({ provenance, modelVersion }: {
+  provenance: PredictionProvenance
+  modelVersion?: string
+}) {
+  return (
+    <Badge variant="outline" className={`text-xs ${PROVENANCE_STYLES[provenance]}`}>
+      {provenance === 'fallback-heuristic' && '⚠️ '}
+      {PROVENANCE_LABELS[provenance]}
+      {modelVersion && provenance !== 'fallback-heuristic' && provenance !== 'unavailable' && ` ${modelVersion}`}
+    </Badge>
+  )
+}
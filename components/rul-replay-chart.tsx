@@ -0,0 +1,33 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+
+export interface RulReplayPoint {
+  cycle: number
+  true_rul: number
+  // null when the model call failed for this cycle
+  predicted_rul: number | null
+}
+
+const chartConfig = {
+  true_rul: { label: 'Ground truth', color: 'hsl(142 71% 35%)' },
+  predicted_rul: { label: 'Predicted', color: 'hsl(221 83% 53%)' },
+} satisfies ChartConfig
+
+// Predicted vs ground-truth RUL over a replayed dataset unit
+export function RulReplayChart({ points }: { points: RulReplayPoint[] }) {
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+      <LineChart data={points} margin={{ left: 0, right: 12, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="cycle" tickLine={false} axisLine={false} label={{ value: 'cycle', position: 'insideBottomRight', offset: -4 }} />
+        <YAxis tickLine={false} axisLine={false} width={36} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Cycle ${payload?.[0]?.payload.cycle}`} />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line dataKey="true_rul" type="linear" stroke="var(--color-true_rul)" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+        <Line dataKey="predicted_rul" type="monotone" stroke="var(--color-predicted_rul)" connectNulls={false} isAnimationActive={false} />
+      </LineChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,84 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { AircraftStatus, StreamEvent } from "@/lib/telemetry/feed"
+import type { AlertTransition, PredictionRecord, SessionSnapshot } from "@/lib/simulation/sessions"
+
+export interface AircraftStreamHandlers {
+  onStatus(status: AircraftStatus): void
+  onSnapshot(snapshot: SessionSnapshot): void
+  onPrediction(prediction: PredictionRecord): void
+  onAlert(alert: AlertTransition): void
+}
+
+export type StreamConnection = "idle" | "connecting" | "open" | "reconnecting"
+
+const EVENT_TYPES: StreamEvent["type"][] = ["status", "snapshot", "prediction", "alert"]
+
+// Longest wait between reconnect attempts once the browser has given up
+const MAX_RETRY_MS = 30_000
+
+// Follow an aircraft's telemetry stream. EventSource retries dropped
+// connections by itself, sending Last-Event-ID; when it gives up (e.g. the
+// server was restarted) we reconnect with backoff and pass the last id we
+// saw, so no events are lost either way. Pass a null tail to disconnect.
+export function useAircraftStream(tail: string | null, handlers: AircraftStreamHandlers): StreamConnection {
+  const [connection, setConnection] = useState<StreamConnection>("idle")
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    if (!tail) {
+      setConnection("idle")
+      return
+    }
+
+    let source: EventSource | null = null
+    let retryTimer: ReturnType<typeof setTimeout> | null = null
+    let lastEventId: string | null = null
+    let attempts = 0
+
+    const dispatch = (type: StreamEvent["type"], message: MessageEvent<string>) => {
+      if (message.lastEventId) lastEventId = message.lastEventId
+      const data = JSON.parse(message.data)
+      const current = handlersRef.current
+      if (type === "status") current.onStatus(data)
+      else if (type === "snapshot") current.onSnapshot(data)
+      else if (type === "prediction") current.onPrediction(data)
+      else current.onAlert(data)
+    }
+
+    const connect = () => {
+      const query = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : ""
+      source = new EventSource(`/api/aircraft/${encodeURIComponent(tail)}/stream${query}`)
+      setConnection(attempts === 0 ? "connecting" : "reconnecting")
+      source.onopen = () => {
+        attempts = 0
+        setConnection("open")
+      }
+      for (const type of EVENT_TYPES) {
+        source.addEventListener(type, (message) => dispatch(type, message as MessageEvent<string>))
+      }
+      source.onerror = () => {
+        if (source?.readyState !== EventSource.CLOSED) {
+          setConnection("reconnecting")
+          return
+        }
+        source.close()
+        attempts++
+        setConnection("reconnecting")
+        const delay = Math.min(MAX_RETRY_MS, 1000 * 2 ** attempts)
+        console.warn(`📡 Telemetry stream for ${tail} closed, reconnecting in ${delay / 1000}s`)
+        retryTimer = setTimeout(connect, delay)
+      }
+    }
+
+    connect()
+    return () => {
+      source?.close()
+      if (retryTimer) clearTimeout(retryTimer)
+    }
+  }, [tail])
+
+  return connection
+}
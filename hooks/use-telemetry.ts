@@ -0,0 +1,19 @@
+"use client"
+
+import { useSyncExternalStore } from "react"
+import { createTelemetryStore, initialTelemetry, type TelemetryState } from "@/lib/telemetry/store"
+import { DEFAULT_PROFILE_ID, getFlightProfile } from "@/lib/simulation/profiles"
+import { DEFAULT_AIRCRAFT_ID } from "@/lib/simulation/scenarios"
+
+// The dashboard's telemetry, shared by every component on the page
+export const telemetryStore = createTelemetryStore(
+  initialTelemetry(DEFAULT_AIRCRAFT_ID, getFlightProfile(DEFAULT_PROFILE_ID).name)
+)
+
+// Subscribe to one slice of the telemetry; the component re-renders only when
+// that slice changes. Selectors must return a part of the state (or a
+// primitive), not a new object, or every update looks like a change.
+export function useTelemetry<T>(selector: (state: TelemetryState) => T): T {
+  const select = () => selector(telemetryStore.getState())
+  return useSyncExternalStore(telemetryStore.subscribe, select, select)
+}
@@ -0,0 +1,100 @@
+// ARINC 429 words as captured off an avionics bus. Bit 1 is the least
+// significant bit of the 32-bit word:
+//   bits 1-8    label (transmitted most significant bit first, written in octal)
+//   bits 9-10   SDI, source/destination identifier
+//   bits 11-29  data field, BNR (two's complement, sign in bit 29) or BCD digits
+//   bits 30-31  SSM, sign/status matrix
+//   bit  32     parity, odd over the whole word
+
+export type SsmStatus = 'normal' | 'failure-warning' | 'no-computed-data' | 'functional-test'
+
+export interface Arinc429Word {
+  word: number
+  // Octal label, e.g. '203'
+  label: string
+  sdi: number
+  // The 19 raw data bits
+  data: number
+  ssm: number
+  parityOk: boolean
+}
+
+export interface BnrFormat {
+  encoding: 'bnr'
+  // Significant bits after the sign bit (1-18)
+  bits: number
+  // Full-scale value: the most significant bit is worth range / 2
+  range: number
+}
+
+export interface BcdFormat {
+  encoding: 'bcd'
+  // Digits used, most significant first (1-5); the first digit has 3 bits
+  digits: number
+  // Value of one count in the least significant digit used
+  resolution: number
+}
+
+export type Arinc429Format = BnrFormat | BcdFormat
+
+export type DecodedValue = { status: 'normal'; value: number } | { status: Exclude<SsmStatus, 'normal'> | 'invalid-bcd' }
+
+function reverseByte(byte: number): number {
+  let reversed = 0
+  for (let bit = 0; bit < 8; bit++) {
+    reversed = (reversed << 1) | ((byte >> bit) & 1)
+  }
+  return reversed
+}
+
+function hasOddParity(word: number): boolean {
+  let ones = 0
+  for (let bits = word >>> 0; bits; bits >>>= 1) ones += bits & 1
+  return ones % 2 === 1
+}
+
+// Captures that already store the label in reading order (some bus analysers
+// do) need reverseLabelBits = false
+export function parseWord(word: number, reverseLabelBits: boolean = true): Arinc429Word {
+  const labelByte = word & 0xff
+  return {
+    word: word >>> 0,
+    label: (reverseLabelBits ? reverseByte(labelByte) : labelByte).toString(8).padStart(3, '0'),
+    sdi: (word >>> 8) & 0b11,
+    data: (word >>> 10) & 0x7ffff,
+    ssm: (word >>> 29) & 0b11,
+    parityOk: hasOddParity(word),
+  }
+}
+
+// BNR: 11 normal, 00 failure warning, 01 no computed data, 10 functional test
+const BNR_STATUS: SsmStatus[] = ['failure-warning', 'no-computed-data', 'functional-test', 'normal']
+
+function decodeBnr({ data, ssm }: Arinc429Word, { bits, range }: BnrFormat): DecodedValue {
+  const status = BNR_STATUS[ssm]
+  if (status !== 'normal') return { status }
+  // Sign-extend the 19-bit field, then drop the pad bits below the last significant one
+  const signed = data & 0x40000 ? data - 0x80000 : data
+  return { status, value: (Math.floor(signed / 2 ** (18 - bits)) * range) / 2 ** bits }
+}
+
+// BCD: 00 plus, 11 minus, 01 no computed data, 10 functional test
+function decodeBcd({ data, ssm }: Arinc429Word, { digits, resolution }: BcdFormat): DecodedValue {
+  if (ssm === 0b01) return { status: 'no-computed-data' }
+  if (ssm === 0b10) return { status: 'functional-test' }
+  // Digit 1 is data bits 17-19 (3 bits), digits 2-5 four bits each below it
+  const widths = [3, 4, 4, 4, 4]
+  let shift = 19
+  let count = 0
+  for (let i = 0; i < digits; i++) {
+    shift -= widths[i]
+    const digit = (data >>> shift) & ((1 << widths[i]) - 1)
+    if (digit > 9) return { status: 'invalid-bcd' }
+    count = count * 10 + digit
+  }
+  return { status: 'normal', value: (ssm === 0b11 ? -count : count) * resolution }
+}
+
+export function decodeValue(word: Arinc429Word, format: Arinc429Format): DecodedValue {
+  return format.encoding === 'bnr' ? decodeBnr(word, format) : decodeBcd(word, format)
+}
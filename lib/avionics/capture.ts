@@ -0,0 +1,214 @@
+import { z } from 'zod'
+import { ENGINE_FEATURES } from '../prediction/subsystems'
+import { SUBSYSTEM_SENSOR_NAMES } from '../simulation/scenarios'
+import type { EngineSensorData, SubsystemSensorData } from '../simulation/sensors'
+import { decodeValue, parseWord, type Arinc429Format, type SsmStatus } from './arinc429'
+
+// ARINC 429 bus captures turned into per-second sensor values the dashboard
+// can replay. A label map says which label (and optionally SDI) carries which
+// sensor field and how its data field is encoded.
+
+const ENGINE_FIELDS = new Set<string>(ENGINE_FEATURES)
+
+const labelEntrySchema = z.discriminatedUnion('encoding', [
+  z.object({
+    encoding: z.literal('bnr'),
+    bits: z.number().int().min(1).max(18),
+    range: z.number().positive(),
+  }),
+  z.object({
+    encoding: z.literal('bcd'),
+    digits: z.number().int().min(1).max(5),
+    resolution: z.number().positive(),
+  }),
+]).and(
+  z.object({
+    label: z.string().regex(/^[0-3][0-7]{2}$/, 'octal label 000-377'),
+    // Only words from this source/destination; any SDI when left out
+    sdi: z.number().int().min(0).max(3).optional(),
+    field: z.enum([...ENGINE_FEATURES, ...SUBSYSTEM_SENSOR_NAMES]),
+  })
+)
+
+export const labelMapSchema = z.object({
+  // False for captures that store labels in reading order rather than as transmitted
+  reverse_label_bits: z.boolean().default(true),
+  labels: z.array(labelEntrySchema).min(1),
+})
+
+export type LabelMap = z.infer<typeof labelMapSchema>
+export type LabelMapEntry = LabelMap['labels'][number]
+export type SensorField = LabelMapEntry['field']
+
+// The bench's label assignments; real equipment has its own interface control document
+export const DEFAULT_LABEL_MAP: LabelMap = {
+  reverse_label_bits: true,
+  labels: [
+    { label: '060', field: 'hydraulic_pressure', encoding: 'bnr', bits: 14, range: 4096 },
+    { label: '061', field: 'hydraulic_flow', encoding: 'bnr', bits: 12, range: 32 },
+    { label: '062', field: 'hydraulic_temp', encoding: 'bnr', bits: 12, range: 512 },
+    { label: '063', field: 'electrical_voltage', encoding: 'bnr', bits: 12, range: 64 },
+    { label: '064', field: 'electrical_current', encoding: 'bnr', bits: 12, range: 128 },
+    { label: '065', field: 'control_surface_deflection', encoding: 'bnr', bits: 12, range: 180 },
+    { label: '066', field: 'cabin_pressure', encoding: 'bnr', bits: 12, range: 32 },
+    { label: '067', field: 'altimeter_drift', encoding: 'bcd', digits: 4, resolution: 0.1 },
+  ],
+}
+
+export class CaptureError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CaptureError'
+  }
+}
+
+export function parseLabelMap(text: string): LabelMap {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch (error) {
+    throw new CaptureError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  const parsed = labelMapSchema.safeParse(raw)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.slice(0, 5).map((issue) => `${issue.path.join('.') || 'label map'}: ${issue.message}`)
+    throw new CaptureError(issues.join('; '))
+  }
+  return parsed.data
+}
+
+export interface CapturedWord {
+  line: number
+  // Seconds from the first timestamped word, when the capture has timestamps
+  time?: number
+  word: number
+}
+
+// Timestamps are seconds (any offset) or ISO 8601 date-times
+function parseTime(text: string): number | undefined {
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text)
+  const ms = Date.parse(text)
+  return Number.isNaN(ms) ? undefined : ms / 1000
+}
+
+function parseHexWord(text: string): number | undefined {
+  const hex = text.replace(/^0x/i, '')
+  return /^[0-9a-f]{1,8}$/i.test(hex) ? parseInt(hex, 16) : undefined
+}
+
+// Two layouts:
+//   hex dump - one word per line, optionally after a timestamp: "12.004 6000A431"
+//   CSV      - a header row with a word/data/hex column and an optional time/timestamp column
+// Blank lines and lines starting with # are skipped.
+export function parseCapture(text: string): { words: CapturedWord[]; errors: string[] } {
+  const lines = text.split(/\r?\n/).map((line, i) => ({ line: i + 1, text: line.trim() }))
+  const content = lines.filter(({ text }) => text && !text.startsWith('#'))
+  const words: CapturedWord[] = []
+  const errors: string[] = []
+  if (!content.length) return { words, errors }
+
+  const header = content[0].text.toLowerCase().split(',').map((column) => column.trim())
+  const csv = header.length > 1 && header.some((column) => ['word', 'data', 'hex'].includes(column))
+  const wordColumn = header.findIndex((column) => ['word', 'data', 'hex'].includes(column))
+  const timeColumn = header.findIndex((column) => ['time', 'timestamp'].includes(column))
+
+  let start: number | undefined
+  for (const { line, text } of csv ? content.slice(1) : content) {
+    const fields = csv ? text.split(',').map((field) => field.trim()) : text.split(/\s+/)
+    const wordText = csv ? fields[wordColumn] : fields[fields.length - 1]
+    const timeText = csv ? (timeColumn >= 0 ? fields[timeColumn] : undefined) : fields.length > 1 ? fields[0] : undefined
+    const word = wordText === undefined ? undefined : parseHexWord(wordText)
+    const time = timeText ? parseTime(timeText) : undefined
+    if (word === undefined || (timeText && time === undefined)) {
+      errors.push(`line ${line}: expected ${csv ? 'a hex word column' : '[time] hex-word'}, got "${text}"`)
+      continue
+    }
+    if (time !== undefined) start ??= time
+    words.push({ line, word, time: time === undefined || start === undefined ? undefined : time - start })
+  }
+  return { words, errors }
+}
+
+export interface CaptureStats {
+  words: number
+  decoded: number
+  parity_errors: number
+  // Words whose label/SDI isn't in the map
+  unmapped: number
+  // Mapped words without a usable value, by SSM status (or bad BCD digits)
+  not_normal: Partial<Record<Exclude<SsmStatus, 'normal'> | 'invalid-bcd', number>>
+  fields: SensorField[]
+}
+
+export interface CaptureSecond {
+  engine: Partial<EngineSensorData>
+  subsystems: Partial<SubsystemSensorData>
+}
+
+export interface ArincCapture {
+  // Every field's latest decoded value as of each second, from the first word on
+  seconds: CaptureSecond[]
+  stats: CaptureStats
+  errors: string[]
+}
+
+// Decode a capture against a label map. Words without timestamps are placed
+// in time by assuming one update per label per second: a new second starts
+// whenever a mapped label repeats.
+export function decodeCapture(text: string, labelMap: LabelMap): ArincCapture {
+  const { words, errors } = parseCapture(text)
+  if (!words.length) {
+    throw new CaptureError(errors.length ? `No ARINC 429 words found (${errors[0]})` : 'No ARINC 429 words found')
+  }
+
+  const stats: CaptureStats = { words: words.length, decoded: 0, parity_errors: 0, unmapped: 0, not_normal: {}, fields: [] }
+  const fields = new Set<SensorField>()
+  const seconds: CaptureSecond[] = []
+  let current: CaptureSecond = { engine: {}, subsystems: {} }
+  let untimedSecond = 0
+  let seenThisSecond = new Set<LabelMapEntry>()
+
+  for (const captured of words) {
+    const word = parseWord(captured.word, labelMap.reverse_label_bits)
+    if (!word.parityOk) {
+      stats.parity_errors++
+      continue
+    }
+    const entry = labelMap.labels.find((candidate) => candidate.label === word.label && (candidate.sdi ?? word.sdi) === word.sdi)
+    if (!entry) {
+      stats.unmapped++
+      continue
+    }
+
+    let second: number
+    if (captured.time !== undefined) {
+      second = Math.max(0, Math.floor(captured.time))
+    } else {
+      if (seenThisSecond.has(entry)) {
+        untimedSecond++
+        seenThisSecond = new Set()
+      }
+      seenThisSecond.add(entry)
+      second = untimedSecond
+    }
+    // Carry values forward through the seconds in between
+    while (seconds.length < second) {
+      seconds.push(current)
+      current = { engine: { ...current.engine }, subsystems: { ...current.subsystems } }
+    }
+
+    const decoded = decodeValue(word, entry as Arinc429Format)
+    if (decoded.status !== 'normal') {
+      stats.not_normal[decoded.status] = (stats.not_normal[decoded.status] ?? 0) + 1
+      continue
+    }
+    stats.decoded++
+    fields.add(entry.field)
+    if (ENGINE_FIELDS.has(entry.field)) current.engine[entry.field as keyof EngineSensorData] = decoded.value
+    else current.subsystems[entry.field as keyof SubsystemSensorData] = decoded.value
+  }
+  seconds.push(current)
+
+  stats.fields = [...fields]
+  return { seconds, stats, errors }
+}
@@ -0,0 +1,30 @@
+// RUL thresholds behind every alert on the dashboard. The panel, the sidebar
+// and the scenario runner all read them from here so they cannot drift apart.
+
+export type RiskLevel = 'safe' | 'warning' | 'danger'
+
+// Overall alert level: header badge, sidebar alerts, scenario assertions
+export const ALERT_THRESHOLDS = { danger: 30, warning: 80 } as const
+
+// Risk level on each subsystem card, tighter than the alert level
+export const RISK_THRESHOLDS = { danger: 25, warning: 60 } as const
+
+function levelFor(rul: number, thresholds: { danger: number; warning: number }): RiskLevel {
+  if (rul < thresholds.danger) return 'danger'
+  if (rul < thresholds.warning) return 'warning'
+  return 'safe'
+}
+
+export function alertLevelFor(rul: number): RiskLevel {
+  return levelFor(rul, ALERT_THRESHOLDS)
+}
+
+export function riskLevelFor(rul: number): RiskLevel {
+  return levelFor(rul, RISK_THRESHOLDS)
+}
+
+const SEVERITY: Record<RiskLevel, number> = { safe: 0, warning: 1, danger: 2 }
+
+export function isAtLeast(level: RiskLevel, minimum: RiskLevel): boolean {
+  return SEVERITY[level] >= SEVERITY[minimum]
+}
@@ -0,0 +1,73 @@
+import {
+  ENGINE_FEATURES,
+  SUBSYSTEM_FEATURES,
+  type EngineFeatureName,
+  type SubsystemFeatureName,
+  type SubsystemName,
+} from '../subsystems'
+import type { PredictionBackend, PredictionInput } from '../types'
+
+// Sensor-driven stand-in for the models, used by the scenario runner. RUL falls
+// as the latest readings leave their normal operating range and reaches zero
+// at the failure limit, so injected faults show up as alerts the way a trained
+// model would flag them, without any model or randomness.
+
+export const ENVELOPE_MODEL_VERSION = 'envelope-1'
+
+const ENVELOPE_RUL_MAX = 140
+
+interface Envelope {
+  // Normal operating range across all flight phases
+  normal: [number, number]
+  // Readings at which the component is considered failed
+  failure: [number, number]
+}
+
+const ENVELOPES: Partial<Record<EngineFeatureName | SubsystemFeatureName, Envelope>> = {
+  exhaust_gas_temperature: { normal: [1700, 2250], failure: [1500, 2600] },
+  hpt_temperature: { normal: [2300, 2650], failure: [2000, 2900] },
+  vibration_level: { normal: [0, 0.35], failure: [0, 0.9] },
+  oil_temperature: { normal: [150, 225], failure: [100, 280] },
+  hydraulic_pressure: { normal: [2700, 3100], failure: [1200, 3500] },
+  hydraulic_flow: { normal: [7, 13], failure: [3, 16] },
+  hydraulic_temp: { normal: [90, 165], failure: [60, 200] },
+  electrical_voltage: { normal: [26, 29.5], failure: [23, 31] },
+  electrical_current: { normal: [8, 26], failure: [2, 32] },
+  control_surface_deflection: { normal: [-2, 14], failure: [-15, 25] },
+  cabin_pressure: { normal: [10.9, 15.2], failure: [5, 16] },
+  altimeter_drift: { normal: [-10, 25], failure: [-30, 60] },
+}
+
+// 0 inside the normal range, 1 at or past the failure limit
+function deviation(value: number, { normal, failure }: Envelope): number {
+  if (value < normal[0]) return Math.min(1, (normal[0] - value) / (normal[0] - failure[0]))
+  if (value > normal[1]) return Math.min(1, (value - normal[1]) / (failure[1] - normal[1]))
+  return 0
+}
+
+function latestReadings(subsystem: SubsystemName, sequence: PredictionInput): [string, number][] {
+  if (subsystem === 'engine') {
+    const features = sequence as number[]
+    return ENGINE_FEATURES.map((name, i) => [name, features[i]])
+  }
+  const window = sequence as number[][]
+  const last = window[window.length - 1]
+  return SUBSYSTEM_FEATURES[subsystem].map((name, i) => [name, last[i]])
+}
+
+export function createEnvelopeBackend(): PredictionBackend {
+  return {
+    kind: 'mock',
+    id: 'envelope',
+    modelVersion: ENVELOPE_MODEL_VERSION,
+    async predict(subsystem: SubsystemName, sequence: PredictionInput) {
+      let worst = 0
+      for (const [name, value] of latestReadings(subsystem, sequence)) {
+        const envelope = ENVELOPES[name as EngineFeatureName | SubsystemFeatureName]
+        if (envelope) worst = Math.max(worst, deviation(value, envelope))
+      }
+      return { rul: ENVELOPE_RUL_MAX * (1 - worst), modelVersion: ENVELOPE_MODEL_VERSION }
+    },
+    async checkReady() {},
+  }
+}
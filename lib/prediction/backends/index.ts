@@ -0,0 +1,28 @@
+import { getBackendKind, getLstmApiBase } from '../config'
+import type { SessionRouting } from '../session'
+import type { SubsystemName } from '../subsystems'
+import type { PredictionBackend } from '../types'
+import { createLocalBackend } from './local'
+import { createMockBackend } from './mock'
+import { createRemoteBackend } from './remote'
+
+const localBackend = createLocalBackend()
+const mockBackend = createMockBackend()
+
+// A session that names its own model server always goes to that server, with
+// its Authorization header; otherwise the configured backend for the subsystem
+// is used, without it
+export function getBackend(subsystem: SubsystemName, routing: SessionRouting = {}): PredictionBackend {
+  if (routing.baseUrl) {
+    return createRemoteBackend(routing.baseUrl, routing.authorization)
+  }
+
+  switch (getBackendKind(subsystem)) {
+    case 'local':
+      return localBackend
+    case 'mock':
+      return mockBackend
+    default:
+      return createRemoteBackend(getLstmApiBase())
+  }
+}
@@ -0,0 +1,154 @@
+import { groupByUnit, loadCmapss, loadSynthetic } from '../datasets'
+import { ModelInputError } from '../errors'
+import { fitRidge, predictRidge, type RidgeModel } from '../regression'
+import {
+  ENGINE_FEATURES,
+  SUBSYSTEM_FEATURES,
+  type SequenceSubsystemName,
+  type SubsystemFeatureName,
+  type SubsystemName,
+} from '../subsystems'
+import type { PredictionBackend, PredictionInput } from '../types'
+import { slidingWindow } from '../windows'
+
+// In-process baseline: ridge regressions fitted on first use from the datasets
+// in the repo. Not a replacement for the LSTMs, but needs no network at all.
+
+export const LOCAL_MODEL_VERSION = 'local-ridge-1'
+
+// C-MAPSS convention: RUL is flat early in life, so cap the training target
+const ENGINE_RUL_CAP = 125
+
+// How far outside the training range an input feature may be, as a share of
+// that range, before the answer counts as extrapolation and is refused
+const RANGE_TOLERANCE = 0.1
+
+interface LocalModel {
+  ridge: RidgeModel
+  featureNames: string[]
+  // Per-feature range of the training rows
+  low: number[]
+  high: number[]
+  // Predictions are clamped to the training targets' range
+  maxRul: number
+}
+
+// The synthetic CSV isn't on the dashboard's sensor scales: cabin pressure is
+// in kPa, and hydraulic flow/temperature and electrical current are on the
+// generator's own scales (nominal 120, 80 and 5). The hosted models take the
+// CSV as-is; this backend is asked about live telemetry, so it trains on rows
+// converted to psi and rescaled so the generator's nominal reading lands on
+// the dashboard's (8.5 gpm, 120 °F, 15 A), and takes input on those scales.
+const KPA_PER_PSI = 6.894757
+
+const DASHBOARD_SCALE: Partial<Record<SubsystemFeatureName, number>> = {
+  cabin_pressure: 1 / KPA_PER_PSI,
+  hydraulic_flow: 8.5 / 120,
+  hydraulic_temp: 120 / 80,
+  electrical_current: 15 / 5,
+}
+
+const models = new Map<SubsystemName, Promise<LocalModel>>()
+
+const WINDOW_STATS = ['last', 'mean', 'slope']
+
+// Summarise a window as last value, mean and slope per column
+export function windowFeatures(window: number[][]): number[] {
+  const columns = window[0].length
+  const features: number[] = []
+  for (let c = 0; c < columns; c++) {
+    const first = window[0][c]
+    const last = window[window.length - 1][c]
+    const mean = window.reduce((sum, step) => sum + step[c], 0) / window.length
+    features.push(last, mean, (last - first) / Math.max(window.length - 1, 1))
+  }
+  return features
+}
+
+function fitLocal(rows: number[][], targets: number[], featureNames: string[]): LocalModel {
+  const low = [...rows[0]]
+  const high = [...rows[0]]
+  for (const row of rows) {
+    row.forEach((value, j) => {
+      if (value < low[j]) low[j] = value
+      if (value > high[j]) high[j] = value
+    })
+  }
+  const maxRul = targets.reduce((max, target) => Math.max(max, target), 0)
+  return { ridge: fitRidge(rows, targets), featureNames, low, high, maxRul }
+}
+
+// Features outside the training range, described for the error message
+function outOfRange(model: LocalModel, features: number[]): string[] {
+  return features.flatMap((value, j) => {
+    const margin = Math.max((model.high[j] - model.low[j]) * RANGE_TOLERANCE, Math.abs(model.high[j]) * 1e-6)
+    if (value >= model.low[j] - margin && value <= model.high[j] + margin) return []
+    return [`${model.featureNames[j]} ${value.toPrecision(4)} (trained on ${model.low[j].toPrecision(4)} to ${model.high[j].toPrecision(4)})`]
+  })
+}
+
+async function trainEngine(): Promise<LocalModel> {
+  const units = groupByUnit(await loadCmapss('cmapssTrain'))
+  const rows: number[][] = []
+  const targets: number[] = []
+  units.forEach((unitRows) => {
+    const lastCycle = unitRows[unitRows.length - 1].cycle
+    for (const row of unitRows) {
+      rows.push(row.features)
+      targets.push(Math.min(lastCycle - row.cycle, ENGINE_RUL_CAP))
+    }
+  })
+  return fitLocal(rows, targets, [...ENGINE_FEATURES])
+}
+
+async function trainSubsystem(subsystem: SequenceSubsystemName): Promise<LocalModel> {
+  const units = groupByUnit(await loadSynthetic('syntheticTrain'))
+  const features = SUBSYSTEM_FEATURES[subsystem]
+  const rows: number[][] = []
+  const targets: number[] = []
+  units.forEach((unitRows) => {
+    const steps = unitRows.map((row) => features.map((f) => row.sensors[f] * (DASHBOARD_SCALE[f] ?? 1)))
+    for (let end = 0; end < steps.length; end++) {
+      rows.push(windowFeatures(slidingWindow(steps, end)))
+      targets.push(unitRows[end].rul[subsystem])
+    }
+  })
+  const names = features.flatMap((feature) => WINDOW_STATS.map((stat) => `${feature} ${stat}`))
+  return fitLocal(rows, targets, names)
+}
+
+function getModel(subsystem: SubsystemName): Promise<LocalModel> {
+  let model = models.get(subsystem)
+  if (!model) {
+    model = subsystem === 'engine' ? trainEngine() : trainSubsystem(subsystem)
+    model.catch(() => models.delete(subsystem))
+    models.set(subsystem, model)
+  }
+  return model
+}
+
+export function createLocalBackend(): PredictionBackend {
+  return {
+    kind: 'local',
+    id: 'local',
+    modelVersion: LOCAL_MODEL_VERSION,
+    async predict(subsystem: SubsystemName, sequence: PredictionInput) {
+      const model = await getModel(subsystem)
+      const features =
+        subsystem === 'engine'
+          ? (sequence as number[])
+          : windowFeatures(sequence as number[][])
+      // A linear model far outside its data answers anything; refuse rather than guess
+      const outside = outOfRange(model, features)
+      if (outside.length) {
+        throw new ModelInputError(`Input outside the local ${subsystem} model's training range: ${outside.slice(0, 3).join(', ')}`)
+      }
+      const rul = Math.min(model.maxRul, Math.max(0, predictRidge(model.ridge, features)))
+      return { rul, modelVersion: LOCAL_MODEL_VERSION }
+    },
+    async checkReady(subsystem: SubsystemName) {
+      // Trains on first call, so this doubles as a warm-up
+      await getModel(subsystem)
+    },
+  }
+}
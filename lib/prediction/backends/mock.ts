@@ -0,0 +1,25 @@
+import { fnv1a } from '../hash'
+import type { SubsystemName } from '../subsystems'
+import type { PredictionBackend, PredictionInput } from '../types'
+
+// Deterministic stand-in for the model: the same input always yields the same
+// RUL, so UI and CI runs are reproducible without any model at all.
+
+export const MOCK_MODEL_VERSION = 'mock-1'
+
+const MOCK_RUL_MIN = 20
+const MOCK_RUL_MAX = 140
+
+export function createMockBackend(): PredictionBackend {
+  return {
+    kind: 'mock',
+    id: 'mock',
+    modelVersion: MOCK_MODEL_VERSION,
+    async predict(subsystem: SubsystemName, sequence: PredictionInput) {
+      const hash = fnv1a(`${subsystem}:${JSON.stringify(sequence)}`)
+      const rul = MOCK_RUL_MIN + (hash % ((MOCK_RUL_MAX - MOCK_RUL_MIN) * 10)) / 10
+      return { rul, modelVersion: MOCK_MODEL_VERSION }
+    },
+    async checkReady() {},
+  }
+}
@@ -0,0 +1,102 @@
+import { UpstreamError } from '../errors'
+import { getCircuitBreaker, getResiliencePolicy, withRetries, withTimeout } from '../resilience'
+import { modelOutputSchema, type ModelOutput } from '../schemas'
+import type { SubsystemName } from '../subsystems'
+import type { PredictionBackend, PredictionInput } from '../types'
+
+// Proxy to the hosted LSTM service: POST {base}/predict/{subsystem} with { sequence }
+
+export const DEFAULT_LSTM_API_BASE = 'https://my-lstm-api-537563823214.us-central1.run.app'
+
+// The hosted models name their output field differently per subsystem
+export function extractRul(subsystem: SubsystemName, output: ModelOutput): number {
+  const candidates = [
+    output.predicted_RUL,
+    output[`predicted_${subsystem}_output`],
+    output.prediction,
+    output.rul,
+  ]
+  const value = candidates.find((v): v is number => typeof v === 'number' && Number.isFinite(v))
+  if (value === undefined) {
+    throw new Error(`Model response for ${subsystem} has no numeric prediction`)
+  }
+  return value
+}
+
+export function createRemoteBackend(baseUrl: string, authorization?: string): PredictionBackend {
+  // One upstream call; every failure is classified for retries and status mapping
+  async function attempt(subsystem: SubsystemName, sequence: PredictionInput, signal: AbortSignal) {
+    let response: Response
+    try {
+      response = await fetch(`${baseUrl}/predict/${subsystem}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(authorization ? { Authorization: authorization } : {}),
+        },
+        body: JSON.stringify({ sequence }),
+        signal,
+      })
+    } catch (error) {
+      if (signal.aborted) throw error
+      throw new UpstreamError('network', `Cannot reach ${baseUrl}: ${error instanceof Error ? error.message : error}`)
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '')
+      const retryAfter = Number(response.headers.get('retry-after'))
+      throw new UpstreamError('http', `API responded with ${response.status}: ${errorText}`, {
+        status: response.status,
+        retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+      })
+    }
+
+    const data = await response.json().catch(() => undefined)
+    const parsed = modelOutputSchema.safeParse(data)
+    if (!parsed.success) {
+      throw new UpstreamError('invalid-response', `Unexpected model response for ${subsystem}: ${parsed.error.issues[0].message}`)
+    }
+    let rul: number
+    try {
+      rul = extractRul(subsystem, parsed.data)
+    } catch (error) {
+      throw new UpstreamError('invalid-response', error instanceof Error ? error.message : String(error))
+    }
+    return {
+      rul,
+      modelVersion: parsed.data.model_version ?? 'remote',
+      raw: data,
+    }
+  }
+
+  return {
+    kind: 'remote',
+    id: `remote:${baseUrl}`,
+    async predict(subsystem: SubsystemName, sequence: PredictionInput) {
+      const policy = getResiliencePolicy(subsystem)
+      return getCircuitBreaker(baseUrl, subsystem).run(() =>
+        withRetries(policy, () => withTimeout(policy.timeoutMs, (signal) => attempt(subsystem, sequence, signal)))
+      )
+    },
+    async checkReady(subsystem: SubsystemName) {
+      // An open breaker means recent calls failed; don't pile on until it cools down
+      const breaker = getCircuitBreaker(baseUrl, subsystem).snapshot()
+      if (breaker.state === 'open') {
+        throw new UpstreamError('circuit-open', `Circuit open for ${subsystem} at ${baseUrl}`)
+      }
+      // Any answer short of a server error means the host is up
+      const response = await withTimeout(getResiliencePolicy(subsystem).timeoutMs, (signal) =>
+        fetch(`${baseUrl}/`, {
+          headers: authorization ? { Authorization: authorization } : {},
+          signal,
+        }).catch((error) => {
+          if (signal.aborted) throw error
+          throw new UpstreamError('network', `Cannot reach ${baseUrl}: ${error instanceof Error ? error.message : error}`)
+        })
+      )
+      if (response.status >= 500) {
+        throw new UpstreamError('http', `API responded with ${response.status}`, { status: response.status })
+      }
+    },
+  }
+}
@@ -0,0 +1,97 @@
+import { createHash } from 'crypto'
+import { fnv1a } from './hash'
+import type { SubsystemName } from './subsystems'
+import type { BackendPrediction, PredictionInput } from './types'
+import { getModelVersion } from './versions'
+
+// LRU cache of model outputs. During a simulation nearly identical windows are
+// sent every few seconds, so inputs are quantized before hashing.
+//
+//   PREDICTION_CACHE_SIZE=500        max entries (0 disables the cache)
+//   PREDICTION_CACHE_TTL_MS=30000    entry lifetime
+//   PREDICTION_CACHE_PRECISION=4     significant digits kept when quantizing
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+interface CacheEntry {
+  prediction: BackendPrediction
+  storedAt: number
+}
+
+const entries = new Map<string, CacheEntry>()
+
+let hits = 0
+let misses = 0
+
+export function quantize(sequence: PredictionInput, precision: number): PredictionInput {
+  const round = (v: number) => Number(v.toPrecision(precision))
+  return sequence.map((step) => (Array.isArray(step) ? step.map(round) : round(step))) as PredictionInput
+}
+
+export function cacheKey(
+  backendId: string,
+  subsystem: SubsystemName,
+  sequence: PredictionInput,
+  authorization?: string
+): string {
+  // Keyed by the last version seen so a redeployed model never serves answers
+  // cached from the previous one
+  const version = getModelVersion(backendId, subsystem) ?? 'unknown'
+  const precision = envNumber('PREDICTION_CACHE_PRECISION', 4)
+  const fingerprint = fnv1a(JSON.stringify(quantize(sequence, precision))).toString(16)
+  // Answers the server gave one credential are never served to another (or to
+  // none); only a digest of the header is kept in memory
+  const credential = authorization ? createHash('sha256').update(authorization).digest('hex') : 'anonymous'
+  return `${subsystem}|${backendId}|${credential}|${version}|${fingerprint}`
+}
+
+export interface CacheHit {
+  prediction: BackendPrediction
+  ageMs: number
+}
+
+export function getCachedPrediction(key: string): CacheHit | undefined {
+  const entry = entries.get(key)
+  const ttl = envNumber('PREDICTION_CACHE_TTL_MS', 30_000)
+  if (!entry || Date.now() - entry.storedAt > ttl) {
+    if (entry) entries.delete(key)
+    misses++
+    return undefined
+  }
+  // Re-insert to mark as most recently used
+  entries.delete(key)
+  entries.set(key, entry)
+  hits++
+  return { prediction: entry.prediction, ageMs: Date.now() - entry.storedAt }
+}
+
+export function storePrediction(
+  backendId: string,
+  subsystem: SubsystemName,
+  sequence: PredictionInput,
+  prediction: BackendPrediction,
+  authorization?: string
+) {
+  const capacity = envNumber('PREDICTION_CACHE_SIZE', 500)
+  if (capacity === 0) return
+
+  entries.set(cacheKey(backendId, subsystem, sequence, authorization), { prediction, storedAt: Date.now() })
+
+  while (entries.size > capacity) {
+    const oldest = entries.keys().next().value
+    if (oldest === undefined) break
+    entries.delete(oldest)
+  }
+}
+
+export function isCacheEnabled(): boolean {
+  return envNumber('PREDICTION_CACHE_SIZE', 500) > 0
+}
+
+export function getCacheStats() {
+  const total = hits + misses
+  return { size: entries.size, hits, misses, hit_ratio: total === 0 ? 0 : hits / total }
+}
@@ -0,0 +1,28 @@
+import { DEFAULT_LSTM_API_BASE } from './backends/remote'
+import type { SubsystemName } from './subsystems'
+import type { BackendKind } from './types'
+
+// Backend selection comes from the environment:
+//   PREDICTION_BACKEND=remote|local|mock           default for every subsystem
+//   PREDICTION_BACKEND_<SUBSYSTEM>=remote|local|mock  per-subsystem override,
+//     e.g. PREDICTION_BACKEND_HYDRAULIC=local
+//   LSTM_API_BASE                                   base URL for the remote backend
+
+const BACKEND_KINDS: readonly BackendKind[] = ['remote', 'local', 'mock']
+
+function parseBackendKind(value: string | undefined): BackendKind | undefined {
+  const normalized = value?.trim().toLowerCase()
+  return BACKEND_KINDS.find((kind) => kind === normalized)
+}
+
+export function getBackendKind(subsystem: SubsystemName): BackendKind {
+  return (
+    parseBackendKind(process.env[`PREDICTION_BACKEND_${subsystem.toUpperCase()}`]) ??
+    parseBackendKind(process.env.PREDICTION_BACKEND) ??
+    'remote'
+  )
+}
+
+export function getLstmApiBase(): string {
+  return (process.env.LSTM_API_BASE || DEFAULT_LSTM_API_BASE).replace(/\/+$/, '')
+}
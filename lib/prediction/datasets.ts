@@ -0,0 +1,159 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import {
+  SEQUENCE_SUBSYSTEMS,
+  SUBSYSTEM_FEATURES,
+  type SequenceSubsystemName,
+  type SubsystemFeatureName,
+} from './subsystems'
+
+// Server-side loaders for the training/evaluation data shipped with the repo.
+// Paths are resolved from the project root so they work under `next dev` and scripts.
+
+export const DATASET_FILES = {
+  cmapssTrain: 'Dataset/PM_train.txt',
+  cmapssTest: 'Dataset/PM_test.txt',
+  cmapssTruth: 'Dataset/PM_truth.txt',
+  syntheticTrain: 'synthetic_per_subsystem_train.csv',
+  syntheticTest: 'synthetic_per_subsystem_test.csv',
+} as const
+
+export type DatasetFile = keyof typeof DATASET_FILES
+
+export type DatasetSplit = 'train' | 'test'
+
+export interface CmapssRow {
+  unit: number
+  cycle: number
+  // 3 operational settings followed by 21 sensors - same order as ENGINE_FEATURES
+  features: number[]
+}
+
+export interface SyntheticRow {
+  unit: number
+  cycle: number
+  rul: Record<SequenceSubsystemName, number>
+  failure: Record<SequenceSubsystemName, boolean>
+  sensors: Record<SubsystemFeatureName, number>
+}
+
+const fileCache = new Map<string, Promise<string>>()
+
+function readDatasetFile(file: DatasetFile): Promise<string> {
+  const fullPath = path.join(process.cwd(), DATASET_FILES[file])
+  let pending = fileCache.get(fullPath)
+  if (!pending) {
+    pending = readFile(fullPath, 'utf8')
+    // Don't cache failures so a missing file can be fixed without a restart
+    pending.catch(() => fileCache.delete(fullPath))
+    fileCache.set(fullPath, pending)
+  }
+  return pending
+}
+
+export function parseCmapss(text: string): CmapssRow[] {
+  const rows: CmapssRow[] = []
+  for (const line of text.split('\n')) {
+    const values = line.trim().split(/\s+/).map(Number)
+    if (values.length < 26 || values.some((v) => !Number.isFinite(v))) continue
+    rows.push({ unit: values[0], cycle: values[1], features: values.slice(2, 26) })
+  }
+  return rows
+}
+
+export function parseTruth(text: string): number[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map(Number)
+}
+
+export function parseSyntheticCsv(text: string): SyntheticRow[] {
+  const [headerLine, ...lines] = text.trim().split('\n')
+  const header = headerLine.trim().split(',')
+  const column = (name: string) => header.indexOf(name)
+
+  return lines
+    .filter((line) => line.trim().length > 0)
+    .map((line) => {
+      const cells = line.trim().split(',')
+      const rul = {} as SyntheticRow['rul']
+      const failure = {} as SyntheticRow['failure']
+      const sensors = {} as SyntheticRow['sensors']
+
+      for (const subsystem of SEQUENCE_SUBSYSTEMS) {
+        rul[subsystem] = Number(cells[column(`RUL_${subsystem}`)])
+        failure[subsystem] = cells[column(`failure_${subsystem}`)] === 'True'
+        for (const feature of SUBSYSTEM_FEATURES[subsystem]) {
+          sensors[feature] = Number(cells[column(feature)])
+        }
+      }
+
+      return {
+        unit: Number(cells[column('unit')]),
+        cycle: Number(cells[column('cycle')]),
+        rul,
+        failure,
+        sensors,
+      }
+    })
+}
+
+export async function loadCmapss(file: 'cmapssTrain' | 'cmapssTest'): Promise<CmapssRow[]> {
+  return parseCmapss(await readDatasetFile(file))
+}
+
+export async function loadTruth(): Promise<number[]> {
+  return parseTruth(await readDatasetFile('cmapssTruth'))
+}
+
+export async function loadSynthetic(file: 'syntheticTrain' | 'syntheticTest'): Promise<SyntheticRow[]> {
+  return parseSyntheticCsv(await readDatasetFile(file))
+}
+
+// Group rows by unit, keeping cycle order
+export function groupByUnit<T extends { unit: number; cycle: number }>(rows: T[]): Map<number, T[]> {
+  const units = new Map<number, T[]>()
+  for (const row of rows) {
+    const unitRows = units.get(row.unit)
+    if (unitRows) unitRows.push(row)
+    else units.set(row.unit, [row])
+  }
+  units.forEach((unitRows) => unitRows.sort((a, b) => a.cycle - b.cycle))
+  return units
+}
+
+export interface CmapssCycle {
+  cycle: number
+  features: number[]
+  // Ground truth: cycles left until the unit failed
+  rul: number
+}
+
+// Every unit's cycles with ground-truth RUL. Training units run to failure, so
+// RUL counts down to 0 at the last cycle; test units stop early and
+// PM_truth.txt gives the RUL remaining after their last cycle.
+export async function loadCmapssTrajectories(split: DatasetSplit): Promise<Map<number, CmapssCycle[]>> {
+  const [rows, truth] = await Promise.all([
+    loadCmapss(split === 'train' ? 'cmapssTrain' : 'cmapssTest'),
+    split === 'test' ? loadTruth() : Promise.resolve([]),
+  ])
+  const trajectories = new Map<number, CmapssCycle[]>()
+  groupByUnit(rows).forEach((unitRows, unit) => {
+    const lastCycle = unitRows[unitRows.length - 1].cycle
+    const remaining = split === 'test' ? truth[unit - 1] : 0
+    // A test unit without a truth entry can't be scored
+    if (remaining === undefined) return
+    trajectories.set(
+      unit,
+      unitRows.map((row) => ({ cycle: row.cycle, features: row.features, rul: lastCycle - row.cycle + remaining }))
+    )
+  })
+  return trajectories
+}
+
+// Synthetic per-subsystem units keyed by unit ID, rows in cycle order
+export async function loadSyntheticUnits(split: DatasetSplit): Promise<Map<number, SyntheticRow[]>> {
+  return groupByUnit(await loadSynthetic(split === 'train' ? 'syntheticTrain' : 'syntheticTest'))
+}
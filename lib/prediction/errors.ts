@@ -0,0 +1,77 @@
+// Failures talking to an upstream model server, classified so the routes can
+// answer with a meaningful status instead of a blanket 500.
+
+export type UpstreamErrorKind = 'timeout' | 'network' | 'http' | 'invalid-response' | 'circuit-open'
+
+export class UpstreamError extends Error {
+  readonly kind: UpstreamErrorKind
+  readonly status?: number
+  readonly retryAfterMs?: number
+
+  constructor(kind: UpstreamErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message)
+    this.name = 'UpstreamError'
+    this.kind = kind
+    this.status = options.status
+    this.retryAfterMs = options.retryAfterMs
+  }
+
+  // Worth another attempt: transient network trouble, timeouts, overload, server errors
+  get retryable(): boolean {
+    if (this.kind === 'timeout' || this.kind === 'network') return true
+    if (this.kind === 'http' && this.status !== undefined) {
+      return this.status === 429 || this.status >= 500
+    }
+    return false
+  }
+}
+
+// Input a model can't give a meaningful answer for, e.g. sensor values far
+// outside anything it was trained on
+export class ModelInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ModelInputError'
+  }
+}
+
+export interface ErrorResponse {
+  status: number
+  body: { error: string; code: string; upstream_status?: number }
+  headers: Record<string, string>
+}
+
+// Map an error from a backend to the status the dashboard should see
+export function toErrorResponse(error: unknown, fallbackMessage: string): ErrorResponse {
+  if (error instanceof ModelInputError) {
+    return { status: 422, body: { error: error.message, code: 'input_out_of_range' }, headers: {} }
+  }
+  if (!(error instanceof UpstreamError)) {
+    return { status: 500, body: { error: fallbackMessage, code: 'internal_error' }, headers: {} }
+  }
+
+  const retryAfter: Record<string, string> = error.retryAfterMs
+    ? { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) }
+    : {}
+
+  switch (error.kind) {
+    case 'timeout':
+      return { status: 504, body: { error: error.message, code: 'upstream_timeout' }, headers: {} }
+    case 'circuit-open':
+      return { status: 503, body: { error: error.message, code: 'circuit_open' }, headers: retryAfter }
+    case 'network':
+      return { status: 502, body: { error: error.message, code: 'upstream_unreachable' }, headers: {} }
+    case 'invalid-response':
+      return { status: 502, body: { error: error.message, code: 'upstream_invalid_response' }, headers: {} }
+    case 'http': {
+      const upstream = error.status ?? 502
+      const body = (code: string) => ({ error: error.message, code, upstream_status: upstream })
+      if (upstream === 400 || upstream === 422) return { status: 422, body: body('upstream_rejected_input'), headers: {} }
+      // The operator-supplied Authorization header is what was refused
+      if (upstream === 401 || upstream === 403) return { status: upstream, body: body('upstream_unauthorized'), headers: {} }
+      if (upstream === 404) return { status: 502, body: body('upstream_model_not_found'), headers: {} }
+      if (upstream === 429) return { status: 503, body: body('upstream_rate_limited'), headers: retryAfter }
+      return { status: 502, body: body('upstream_error'), headers: {} }
+    }
+  }
+}
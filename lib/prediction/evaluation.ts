@@ -0,0 +1,137 @@
+import { getBackend } from './backends'
+import { DATASET_FILES, groupByUnit, loadCmapss, loadTruth } from './datasets'
+import type { SessionRouting } from './session'
+
+// Offline scoring of the engine model: the last cycle of every C-MAPSS test
+// unit goes through the configured backend and is compared with PM_truth.txt.
+
+export interface UnitEvaluation {
+  unit: number
+  cycles: number
+  true_rul: number
+  predicted_rul: number | null
+  // predicted - true; positive means the model is late (the dangerous side)
+  error: number | null
+  score: number | null
+  failure?: string
+}
+
+export interface EvaluationSummary {
+  units: number
+  // Truth entries with no rows in the test file
+  missing_units: number[]
+  evaluated: number
+  failed: number
+  rmse: number
+  mae: number
+  // Sum of the NASA asymmetric scores, lower is better
+  score: number
+}
+
+export interface EvaluationReport {
+  subsystem: 'engine'
+  backend: string
+  model_version: string | null
+  dataset: { test: string; truth: string }
+  started_at: string
+  duration_ms: number
+  summary: EvaluationSummary
+  units: UnitEvaluation[]
+}
+
+export interface EvaluationOptions {
+  routing?: SessionRouting
+  // Requests in flight at once; keep low against a hosted model
+  concurrency?: number
+}
+
+// PHM08 scoring function: late predictions are penalised harder than early ones
+export function nasaScore(error: number): number {
+  return error < 0 ? Math.exp(-error / 13) - 1 : Math.exp(error / 10) - 1
+}
+
+export function summarize(units: UnitEvaluation[], missingUnits: number[] = []): EvaluationSummary {
+  const errors = units.flatMap((u) => (u.error === null ? [] : [u.error]))
+  const n = errors.length
+  return {
+    units: units.length,
+    missing_units: missingUnits,
+    evaluated: n,
+    failed: units.length - n,
+    rmse: n ? Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / n) : NaN,
+    mae: n ? errors.reduce((sum, e) => sum + Math.abs(e), 0) / n : NaN,
+    score: errors.reduce((sum, e) => sum + nasaScore(e), 0),
+  }
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker))
+  return results
+}
+
+export async function evaluateEngine(options: EvaluationOptions = {}): Promise<EvaluationReport> {
+  const started = Date.now()
+  const backend = getBackend('engine', options.routing)
+  const [rows, truth] = await Promise.all([loadCmapss('cmapssTest'), loadTruth()])
+  const units = Array.from(groupByUnit(rows))
+
+  // PM_truth.txt lists one RUL per test unit, in unit order. The PM_test.txt
+  // in the repo stops partway through, so not every truth entry has rows.
+  const unknown = units.filter(([unit]) => truth[unit - 1] === undefined)
+  if (unknown.length) {
+    throw new Error(`PM_truth.txt has no entry for test unit ${unknown[0][0]}`)
+  }
+  const present = new Set(units.map(([unit]) => unit))
+  const missingUnits = truth.map((_, i) => i + 1).filter((unit) => !present.has(unit))
+
+  const versions = new Set<string>()
+  const results = await mapWithConcurrency(units, options.concurrency ?? 4, async ([unit, unitRows]): Promise<UnitEvaluation> => {
+    const trueRul = truth[unit - 1]
+    const base = { unit, cycles: unitRows.length, true_rul: trueRul }
+    try {
+      const prediction = await backend.predict('engine', unitRows[unitRows.length - 1].features)
+      versions.add(prediction.modelVersion)
+      const error = prediction.rul - trueRul
+      return { ...base, predicted_rul: prediction.rul, error, score: nasaScore(error) }
+    } catch (error) {
+      return {
+        ...base,
+        predicted_rul: null,
+        error: null,
+        score: null,
+        failure: error instanceof Error ? error.message : String(error),
+      }
+    }
+  })
+
+  return {
+    subsystem: 'engine',
+    backend: backend.id,
+    model_version: versions.size === 1 ? Array.from(versions)[0] : versions.size > 1 ? 'mixed' : null,
+    dataset: { test: DATASET_FILES.cmapssTest, truth: DATASET_FILES.cmapssTruth },
+    started_at: new Date(started).toISOString(),
+    duration_ms: Date.now() - started,
+    summary: summarize(results, missingUnits),
+    units: results,
+  }
+}
+
+const CSV_COLUMNS = ['unit', 'cycles', 'true_rul', 'predicted_rul', 'error', 'score', 'failure'] as const
+
+export function toCsv(units: UnitEvaluation[]): string {
+  const cell = (value: unknown) => {
+    if (value === null || value === undefined) return ''
+    const text = String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+  const lines = units.map((u) => CSV_COLUMNS.map((column) => cell(u[column])).join(','))
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n'
+}
@@ -0,0 +1,73 @@
+import type { SequenceSubsystemName } from './subsystems'
+
+// Time-based synthetic RUL used only when the operator explicitly enables the
+// heuristic fallback. Follows the degradation patterns of the synthetic
+// training set: healthy for the first 10 s, gradual decline to 20 s, then an
+// aggressive decline through the critical takeoff phase.
+
+interface HeuristicProfile {
+  // 10-20 s: 120 - progression * drop - random * spread
+  gradual: { drop: number; spread: number; failureAfter?: number; failureChance?: number }
+  // 20 s+: start - progression * drop - random * spread
+  critical: { start: number; drop: number; spread: number; failureAfter: number; failureBase: number; failureGrowth: number }
+}
+
+const PROFILES: Record<SequenceSubsystemName, HeuristicProfile> = {
+  hydraulic: {
+    gradual: { drop: 45, spread: 10, failureAfter: 0.7, failureChance: 0.1 },
+    critical: { start: 75, drop: 50, spread: 15, failureAfter: 0.3, failureBase: 0.15, failureGrowth: 0.2 },
+  },
+  electrical: {
+    gradual: { drop: 30, spread: 8 },
+    critical: { start: 90, drop: 45, spread: 12, failureAfter: 0.5, failureBase: 0.1, failureGrowth: 0.15 },
+  },
+  control_surface: {
+    gradual: { drop: 40, spread: 15, failureAfter: 0.8, failureChance: 0.05 },
+    critical: { start: 80, drop: 60, spread: 10, failureAfter: 0.4, failureBase: 0.12, failureGrowth: 0.25 },
+  },
+  // Most robust system
+  cabin: {
+    gradual: { drop: 20, spread: 5 },
+    critical: { start: 100, drop: 30, spread: 8, failureAfter: 0.7, failureBase: 0.05, failureGrowth: 0.08 },
+  },
+  altimeter: {
+    gradual: { drop: 35, spread: 10 },
+    critical: { start: 85, drop: 50, spread: 12, failureAfter: 0.6, failureBase: 0.08, failureGrowth: 0.12 },
+  },
+}
+
+// Dataset minimum
+const MIN_RUL = 5
+
+export interface HeuristicEstimate {
+  rul: number
+  failure: boolean
+}
+
+export function heuristicRUL(
+  subsystem: SequenceSubsystemName,
+  time: number,
+  random: () => number = Math.random
+): HeuristicEstimate {
+  const { gradual, critical } = PROFILES[subsystem]
+  let rul: number
+  let failure = false
+
+  if (time <= 10) {
+    rul = 120 - Math.floor(random() * 5)
+  } else if (time <= 20) {
+    const progression = (time - 10) / 10
+    rul = Math.floor(120 - progression * gradual.drop - random() * gradual.spread)
+    if (gradual.failureAfter !== undefined && progression > gradual.failureAfter) {
+      failure = random() < (gradual.failureChance ?? 0)
+    }
+  } else {
+    const progression = Math.min((time - 20) / 25, 1)
+    rul = Math.floor(critical.start - progression * critical.drop - random() * critical.spread)
+    if (progression > critical.failureAfter) {
+      failure = random() < critical.failureBase + progression * critical.failureGrowth
+    }
+  }
+
+  return { rul: Math.max(MIN_RUL, rul), failure }
+}
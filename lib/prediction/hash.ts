@@ -0,0 +1,10 @@
+// 32-bit FNV-1a. Not cryptographic - only used to derive stable keys and
+// deterministic values from prediction inputs.
+export function fnv1a(input: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
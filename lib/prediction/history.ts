@@ -0,0 +1,77 @@
+import {
+  SEQUENCE_LENGTH,
+  SEQUENCE_SUBSYSTEMS,
+  SUBSYSTEM_FEATURES,
+  type SequenceSubsystemName,
+  type SubsystemFeatureName,
+} from './subsystems'
+import { padWindow, type WindowPadding } from './windows'
+
+// Rolling sensor history: the last N samples per subsystem, which become the
+// model input windows instead of histories made up on the spot.
+
+export interface RingBuffer<T> {
+  push(item: T): void
+  // Oldest first
+  toArray(): T[]
+  readonly size: number
+  readonly capacity: number
+  clear(): void
+}
+
+export function createRingBuffer<T>(capacity: number): RingBuffer<T> {
+  const items = new Array<T>(capacity)
+  let start = 0
+  let size = 0
+
+  return {
+    push(item) {
+      items[(start + size) % capacity] = item
+      if (size < capacity) size++
+      else start = (start + 1) % capacity
+    },
+    toArray: () => Array.from({ length: size }, (_, i) => items[(start + i) % capacity]),
+    get size() {
+      return size
+    },
+    capacity,
+    clear() {
+      start = 0
+      size = 0
+    },
+  }
+}
+
+export type SensorSample = Partial<Record<SubsystemFeatureName, number>>
+
+export interface SensorHistory {
+  // Record whichever subsystems the sample has every column for
+  record(sample: SensorSample): void
+  window(subsystem: SequenceSubsystemName, padding: WindowPadding): number[][] | null
+  fill(subsystem: SequenceSubsystemName): number
+  readonly capacity: number
+  reset(): void
+}
+
+export function createSensorHistory(capacity: number = SEQUENCE_LENGTH): SensorHistory {
+  const buffers = Object.fromEntries(
+    SEQUENCE_SUBSYSTEMS.map((subsystem) => [subsystem, createRingBuffer<number[]>(capacity)])
+  ) as Record<SequenceSubsystemName, RingBuffer<number[]>>
+
+  return {
+    record(sample) {
+      for (const subsystem of SEQUENCE_SUBSYSTEMS) {
+        const row = SUBSYSTEM_FEATURES[subsystem].map((feature) => sample[feature])
+        if (row.every((value): value is number => typeof value === 'number' && Number.isFinite(value))) {
+          buffers[subsystem].push(row)
+        }
+      }
+    },
+    window: (subsystem, padding) => padWindow(buffers[subsystem].toArray(), padding, capacity),
+    fill: (subsystem) => buffers[subsystem].size,
+    capacity,
+    reset() {
+      SEQUENCE_SUBSYSTEMS.forEach((subsystem) => buffers[subsystem].clear())
+    },
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createLogger, type Logger } from './logger'
+import { httpDuration, httpRequests } from './metrics'
+
+export const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, X-Request-ID',
+  'Access-Control-Expose-Headers': 'X-Request-ID',
+}
+
+export type InstrumentedHandler = (request: NextRequest, log: Logger) => Promise<NextResponse>
+
+// Wrap a route handler with a request ID (taken from X-Request-ID when the
+// caller sends one), a request-scoped logger, an access log line and metrics
+export function instrumented(route: string, handler: InstrumentedHandler) {
+  return async (request: NextRequest): Promise<NextResponse> => {
+    const requestId = request.headers.get('x-request-id') || crypto.randomUUID()
+    const log = createLogger({ request_id: requestId, route, method: request.method })
+    const started = performance.now()
+
+    let response: NextResponse
+    try {
+      response = await handler(request, log)
+    } catch (error) {
+      log.error('unhandled error', { error })
+      response = NextResponse.json({ error: 'Internal server error' }, { status: 500, headers: CORS_HEADERS })
+    }
+
+    const seconds = (performance.now() - started) / 1000
+    httpRequests.inc({ route, method: request.method, status: String(response.status) })
+    httpDuration.observe({ route }, seconds)
+    log.info('request completed', { status: response.status, duration_ms: Math.round(seconds * 1000) })
+    response.headers.set('X-Request-ID', requestId)
+    return response
+  }
+}
@@ -0,0 +1,52 @@
+// Structured server logs: one JSON object per line, so log shippers can index
+// request_id, subsystem, status and the like without parsing prose.
+//
+//   LOG_LEVEL=info    debug | info | warn | error
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void
+  info(msg: string, fields?: LogFields): void
+  warn(msg: string, fields?: LogFields): void
+  error(msg: string, fields?: LogFields): void
+  child(bindings: LogFields): Logger
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+function minLevel(): number {
+  const configured = process.env.LOG_LEVEL as LogLevel | undefined
+  return LEVELS[configured ?? 'info'] ?? LEVELS.info
+}
+
+// Errors don't survive JSON.stringify, so keep their name and message
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) return { name: value.name, message: value.message }
+  return value
+}
+
+export function createLogger(bindings: LogFields = {}): Logger {
+  const write = (level: LogLevel, msg: string, fields: LogFields = {}) => {
+    if (LEVELS[level] < minLevel()) return
+    const entry: LogFields = { ts: new Date().toISOString(), level, msg, ...bindings }
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) entry[key] = serialize(value)
+    }
+    const line = JSON.stringify(entry)
+    if (level === 'error' || level === 'warn') console.error(line)
+    else console.log(line)
+  }
+
+  return {
+    debug: (msg, fields) => write('debug', msg, fields),
+    info: (msg, fields) => write('info', msg, fields),
+    warn: (msg, fields) => write('warn', msg, fields),
+    error: (msg, fields) => write('error', msg, fields),
+    child: (more) => createLogger({ ...bindings, ...more }),
+  }
+}
+
+export const logger = createLogger()
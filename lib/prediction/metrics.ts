@@ -0,0 +1,152 @@
+import { getCacheStats } from './cache'
+import { listCircuitBreakers } from './resilience'
+
+// In-process metrics rendered in the Prometheus text exposition format by
+// GET /api/metrics. Values reset when the server restarts.
+
+type Labels = Record<string, string>
+
+interface Sample {
+  labels: Labels
+  value: number
+}
+
+interface Metric {
+  render(): string[]
+}
+
+const registry: Metric[] = []
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`)
+  return pairs.length ? `{${pairs.join(',')}}` : ''
+}
+
+// Stable key regardless of the order labels were passed in
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`]
+}
+
+export interface Counter {
+  inc(labels: Labels, by?: number): void
+  samples(): Sample[]
+}
+
+export function counter(name: string, help: string): Counter {
+  const values = new Map<string, Sample>()
+  const metric: Counter & Metric = {
+    inc(labels, by = 1) {
+      const key = labelKey(labels)
+      const sample = values.get(key) ?? { labels, value: 0 }
+      sample.value += by
+      values.set(key, sample)
+    },
+    samples: () => Array.from(values.values()),
+    render: () => [
+      ...header(name, help, 'counter'),
+      ...Array.from(values.values(), (s) => `${name}${formatLabels(s.labels)} ${s.value}`),
+    ],
+  }
+  registry.push(metric)
+  return metric
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void
+}
+
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+export function histogram(name: string, help: string, buckets = DEFAULT_BUCKETS): Histogram {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>()
+  const metric: Histogram & Metric = {
+    observe(labels, value) {
+      const key = labelKey(labels)
+      let entry = series.get(key)
+      if (!entry) {
+        entry = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 }
+        series.set(key, entry)
+      }
+      buckets.forEach((bound, i) => {
+        if (value <= bound) entry.counts[i]++
+      })
+      entry.sum += value
+      entry.count++
+    },
+    render: () => [
+      ...header(name, help, 'histogram'),
+      ...Array.from(series.values()).flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map((bound, i) => `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+    ],
+  }
+  registry.push(metric)
+  return metric
+}
+
+// Computed at scrape time from state kept elsewhere
+export function gauge(name: string, help: string, collect: () => Sample[]) {
+  registry.push({
+    render: () => [
+      ...header(name, help, 'gauge'),
+      ...collect().map((s) => `${name}${formatLabels(s.labels)} ${s.value}`),
+    ],
+  })
+}
+
+export function renderMetrics(): string {
+  return registry.flatMap((metric) => metric.render()).join('\n') + '\n'
+}
+
+// Route level: every request to an instrumented API route
+export const httpRequests = counter('http_requests_total', 'API requests by route, method and status')
+export const httpDuration = histogram('http_request_duration_seconds', 'API request latency by route')
+
+// Prediction level: one sample per subsystem, so a batch of six counts six times
+export const predictions = counter(
+  'prediction_requests_total',
+  'Predictions by subsystem, backend and outcome (ok, cached, error)'
+)
+export const predictionDuration = histogram(
+  'prediction_duration_seconds',
+  'Prediction latency by subsystem and backend, cache hits included'
+)
+export const upstreamErrors = counter(
+  'prediction_upstream_errors_total',
+  'Failed predictions by subsystem and error kind (timeout, network, http, invalid-response, circuit-open, internal)'
+)
+export const cacheLookups = counter('prediction_cache_lookups_total', 'Prediction cache lookups by subsystem and result (hit, miss)')
+
+gauge('prediction_cache_hit_ratio', 'Share of cache lookups that hit, per subsystem', () => {
+  const totals = new Map<string, { hit: number; all: number }>()
+  for (const { labels, value } of cacheLookups.samples()) {
+    const entry = totals.get(labels.subsystem) ?? { hit: 0, all: 0 }
+    entry.all += value
+    if (labels.result === 'hit') entry.hit += value
+    totals.set(labels.subsystem, entry)
+  }
+  return Array.from(totals, ([subsystem, { hit, all }]) => ({
+    labels: { subsystem },
+    value: all ? hit / all : 0,
+  }))
+})
+
+gauge('prediction_cache_entries', 'Entries currently held in the prediction cache', () => [
+  { labels: {}, value: getCacheStats().size },
+])
+
+gauge('prediction_circuit_open', '1 while the circuit breaker for a model endpoint is open', () =>
+  listCircuitBreakers().map((breaker) => ({
+    labels: { target: breaker.target, subsystem: breaker.subsystem },
+    value: breaker.state === 'open' ? 1 : 0,
+  }))
+)
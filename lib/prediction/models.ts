@@ -0,0 +1,59 @@
+import { getBackend } from './backends'
+import type { SessionRouting } from './session'
+import {
+  ENGINE_FEATURES,
+  FEATURE_UNITS,
+  SEQUENCE_LENGTH,
+  SUBSYSTEM_FEATURES,
+  SUBSYSTEMS,
+  type EngineFeatureName,
+  type SubsystemFeatureName,
+  type SubsystemName,
+} from './subsystems'
+import type { BackendKind } from './types'
+import { getModelVersion } from './versions'
+
+// Model metadata: what each subsystem's model expects and where it came from
+
+export interface ModelFeature {
+  name: string
+  unit: string
+}
+
+export interface ModelDescriptor {
+  subsystem: SubsystemName
+  // [24] for the engine vector, [50, columns] for subsystem windows
+  input_shape: number[]
+  features: ModelFeature[]
+  backend: BackendKind
+  target: string
+  // null until a remote model has answered at least once
+  model_version: string | null
+  // null for the mock backend, which isn't trained on anything
+  training_dataset: string | null
+}
+
+const TRAINING_DATASETS: Record<'engine' | 'subsystem', string> = {
+  engine: 'Dataset/PM_train.txt (NASA C-MAPSS FD001)',
+  subsystem: 'synthetic_per_subsystem_train.csv',
+}
+
+export function describeModel(subsystem: SubsystemName, routing: SessionRouting = {}): ModelDescriptor {
+  const backend = getBackend(subsystem, routing)
+  const names: readonly (EngineFeatureName | SubsystemFeatureName)[] = subsystem === 'engine' ? ENGINE_FEATURES : SUBSYSTEM_FEATURES[subsystem]
+
+  return {
+    subsystem,
+    input_shape: subsystem === 'engine' ? [names.length] : [SEQUENCE_LENGTH, names.length],
+    features: names.map((name) => ({ name, unit: FEATURE_UNITS[name] })),
+    backend: backend.kind,
+    target: backend.id,
+    model_version: backend.modelVersion ?? getModelVersion(backend.id, subsystem) ?? null,
+    training_dataset:
+      backend.kind === 'mock' ? null : TRAINING_DATASETS[subsystem === 'engine' ? 'engine' : 'subsystem'],
+  }
+}
+
+export function describeModels(routing: SessionRouting = {}): ModelDescriptor[] {
+  return SUBSYSTEMS.map((subsystem) => describeModel(subsystem, routing))
+}
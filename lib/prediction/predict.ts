@@ -0,0 +1,117 @@
+import { getBackend } from './backends'
+import { cacheKey, getCachedPrediction, isCacheEnabled, storePrediction } from './cache'
+import { toErrorResponse, UpstreamError } from './errors'
+import { logger, type Logger } from './logger'
+import { cacheLookups, predictionDuration, predictions, upstreamErrors } from './metrics'
+import {
+  validatePredictionInput,
+  type BatchItemResult,
+  type BatchResponse,
+  type PredictionResponse,
+} from './schemas'
+import type { SessionRouting } from './session'
+import { isSubsystemName, type SubsystemName } from './subsystems'
+import type { PredictionInput } from './types'
+import { recordModelVersion } from './versions'
+
+// Shared by the single and batch predict routes
+
+export async function runPrediction(
+  subsystem: SubsystemName,
+  sequence: PredictionInput,
+  routing: SessionRouting,
+  log: Logger = logger
+): Promise<PredictionResponse> {
+  const backend = getBackend(subsystem, routing)
+  const started = performance.now()
+  const record = (outcome: 'ok' | 'cached' | 'error') => {
+    predictions.inc({ subsystem, backend: backend.kind, outcome })
+    predictionDuration.observe({ subsystem, backend: backend.kind }, (performance.now() - started) / 1000)
+  }
+
+  const key = cacheKey(backend.id, subsystem, sequence, routing.authorization)
+  const hit = isCacheEnabled() ? getCachedPrediction(key) : undefined
+  if (isCacheEnabled()) cacheLookups.inc({ subsystem, result: hit ? 'hit' : 'miss' })
+  if (hit) {
+    record('cached')
+    return {
+      subsystem,
+      prediction: hit.prediction.rul,
+      model_version: hit.prediction.modelVersion,
+      backend: backend.kind,
+      cached: true,
+      cache_age_ms: hit.ageMs,
+    }
+  }
+
+  let result
+  try {
+    result = await backend.predict(subsystem, sequence)
+  } catch (error) {
+    record('error')
+    const kind = error instanceof UpstreamError ? error.kind : 'internal'
+    upstreamErrors.inc({ subsystem, kind })
+    log.warn('prediction failed', { subsystem, backend: backend.id, kind, error })
+    throw error
+  }
+  record('ok')
+  log.debug('prediction', { subsystem, backend: backend.id, rul: result.rul, model_version: result.modelVersion })
+  // Record the version first so the entry is keyed under the model that produced it
+  recordModelVersion(backend.id, subsystem, result.modelVersion)
+  storePrediction(backend.id, subsystem, sequence, result, routing.authorization)
+  return {
+    subsystem,
+    prediction: result.rul,
+    model_version: result.modelVersion,
+    backend: backend.kind,
+    cached: false,
+  }
+}
+
+export interface BatchItem {
+  subsystem: string
+  sequence: unknown
+}
+
+// Run every item concurrently; a failing item never fails the others
+export async function runBatch(
+  items: BatchItem[],
+  routing: SessionRouting,
+  log: Logger = logger
+): Promise<BatchResponse> {
+  const started = Date.now()
+
+  const results = await Promise.all(
+    items.map(async ({ subsystem, sequence }): Promise<BatchItemResult> => {
+      const t0 = Date.now()
+      if (!isSubsystemName(subsystem)) {
+        return { subsystem, status: 'invalid', latency_ms: 0, error: `Unknown subsystem: ${subsystem}` }
+      }
+      const issues = validatePredictionInput(subsystem, sequence)
+      if (issues) {
+        return { subsystem, status: 'invalid', latency_ms: 0, error: 'Invalid input', issues }
+      }
+      try {
+        const result = await runPrediction(subsystem, sequence as PredictionInput, routing, log)
+        return { ...result, status: 'ok', latency_ms: Date.now() - t0 }
+      } catch (error) {
+        const { body } = toErrorResponse(error, error instanceof Error ? error.message : String(error))
+        return {
+          subsystem,
+          status: 'error',
+          latency_ms: Date.now() - t0,
+          error: body.error,
+          code: body.code,
+        }
+      }
+    })
+  )
+
+  const succeeded = results.filter((item) => item.status === 'ok').length
+  return {
+    results,
+    succeeded,
+    failed: results.length - succeeded,
+    latency_ms: Date.now() - started,
+  }
+}
@@ -0,0 +1,42 @@
+import { riskLevelFor, type RiskLevel } from './alerts'
+import type { BatchItemResult } from './schemas'
+
+// Where a displayed RUL value came from. Anything other than 'model' must be
+// visibly marked in the UI - this is a safety dashboard.
+//   model              - fresh output of the prediction backend for this tick
+//   cached             - model output served from the server cache or
+//                        reused from an earlier tick
+//   fallback-heuristic - synthetic estimate, NOT a model output
+//   unavailable        - no value at all
+
+export type PredictionProvenance = 'model' | 'cached' | 'fallback-heuristic' | 'unavailable'
+
+export const PROVENANCE_LABELS: Record<PredictionProvenance, string> = {
+  model: 'Model',
+  cached: 'Cached',
+  'fallback-heuristic': 'Heuristic fallback',
+  unavailable: 'Unavailable',
+}
+
+// Degraded = the operator is looking at something that is not model output
+export function isDegraded(provenance: PredictionProvenance | undefined): boolean {
+  return provenance === 'fallback-heuristic' || provenance === 'unavailable'
+}
+
+export interface DisplayedPrediction {
+  rul: number
+  risk_level: RiskLevel
+  provenance: 'model' | 'cached'
+}
+
+// The one place a batch item becomes a displayed value: the backend's RUL
+// exactly as returned, with its card risk level. The dashboard and the server
+// monitor both go through here, so a value labelled model output always is.
+export function displayedPrediction(result: BatchItemResult | undefined): DisplayedPrediction | undefined {
+  if (result?.status !== 'ok' || result.prediction === undefined) return undefined
+  return {
+    rul: result.prediction,
+    risk_level: riskLevelFor(result.prediction),
+    provenance: result.cached ? 'cached' : 'model',
+  }
+}
@@ -0,0 +1,50 @@
+import { getBackend } from './backends'
+import type { SessionRouting } from './session'
+import { SUBSYSTEMS, type SubsystemName } from './subsystems'
+import type { BackendKind } from './types'
+
+// Readiness: can each subsystem's model take requests right now?
+
+export interface SubsystemReadiness {
+  subsystem: SubsystemName
+  ready: boolean
+  backend: BackendKind
+  target: string
+  latency_ms: number
+  error?: string
+}
+
+export interface ReadinessReport {
+  ready: boolean
+  latency_ms: number
+  subsystems: SubsystemReadiness[]
+}
+
+export async function checkReadiness(routing: SessionRouting = {}): Promise<ReadinessReport> {
+  const started = Date.now()
+
+  const subsystems = await Promise.all(
+    SUBSYSTEMS.map(async (subsystem): Promise<SubsystemReadiness> => {
+      const backend = getBackend(subsystem, routing)
+      const t0 = Date.now()
+      const base = { subsystem, backend: backend.kind, target: backend.id }
+      try {
+        await backend.checkReady(subsystem)
+        return { ...base, ready: true, latency_ms: Date.now() - t0 }
+      } catch (error) {
+        return {
+          ...base,
+          ready: false,
+          latency_ms: Date.now() - t0,
+          error: error instanceof Error ? error.message : String(error),
+        }
+      }
+    })
+  )
+
+  return {
+    ready: subsystems.every((check) => check.ready),
+    latency_ms: Date.now() - started,
+    subsystems,
+  }
+}
@@ -0,0 +1,78 @@
+// Minimal ridge regression used by the local prediction backend.
+// Features are standardized before fitting so a single lambda works for
+// inputs with very different scales (psi vs. volts vs. ratios).
+
+export interface RidgeModel {
+  means: number[]
+  scales: number[]
+  weights: number[]
+  intercept: number
+}
+
+export function fitRidge(rows: number[][], targets: number[], lambda = 1): RidgeModel {
+  if (rows.length === 0) throw new Error('Cannot fit a model without training rows')
+  const n = rows.length
+  const d = rows[0].length
+
+  const means = new Array(d).fill(0)
+  const scales = new Array(d).fill(0)
+  for (const row of rows) row.forEach((v, j) => (means[j] += v / n))
+  for (const row of rows) row.forEach((v, j) => (scales[j] += (v - means[j]) ** 2 / n))
+  for (let j = 0; j < d; j++) {
+    // Constant columns carry no signal; a unit scale keeps them at zero
+    scales[j] = Math.sqrt(scales[j]) || 1
+  }
+
+  const intercept = targets.reduce((sum, y) => sum + y, 0) / n
+
+  // Normal equations: (XᵀX + λI) w = Xᵀ(y - ȳ)
+  const xtx = Array.from({ length: d }, () => new Array(d).fill(0))
+  const xty = new Array(d).fill(0)
+  rows.forEach((row, i) => {
+    const z = row.map((v, j) => (v - means[j]) / scales[j])
+    const y = targets[i] - intercept
+    for (let a = 0; a < d; a++) {
+      xty[a] += z[a] * y
+      for (let b = a; b < d; b++) xtx[a][b] += z[a] * z[b]
+    }
+  })
+  for (let a = 0; a < d; a++) {
+    for (let b = 0; b < a; b++) xtx[a][b] = xtx[b][a]
+    xtx[a][a] += lambda
+  }
+
+  return { means, scales, weights: solve(xtx, xty), intercept }
+}
+
+export function predictRidge(model: RidgeModel, features: number[]): number {
+  return features.reduce(
+    (sum, v, j) => sum + ((v - model.means[j]) / model.scales[j]) * model.weights[j],
+    model.intercept
+  )
+}
+
+// Gaussian elimination with partial pivoting; the ridge term keeps A well conditioned
+function solve(a: number[][], b: number[]): number[] {
+  const n = b.length
+  const m = a.map((row, i) => [...row, b[i]])
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r
+    }
+    ;[m[col], m[pivot]] = [m[pivot], m[col]]
+    for (let r = col + 1; r < n; r++) {
+      const factor = m[r][col] / m[col][col]
+      for (let c = col; c <= n; c++) m[r][c] -= factor * m[col][c]
+    }
+  }
+
+  const x = new Array(n).fill(0)
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n]
+    for (let c = r + 1; c < n; c++) sum -= m[r][c] * x[c]
+    x[r] = sum / m[r][r]
+  }
+  return x
+}
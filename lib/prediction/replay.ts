@@ -0,0 +1,54 @@
+import type { CmapssCycle, DatasetSplit, SyntheticRow } from './datasets'
+import { SEQUENCE_SUBSYSTEMS, SUBSYSTEM_FEATURES, type SequenceSubsystemName } from './subsystems'
+import { slidingWindow } from './windows'
+
+// Client-side data sources that replay dataset units through the dashboard,
+// fetched from /api/datasets/*. Nothing here touches the filesystem.
+
+export interface CmapssReplayUnit {
+  split: DatasetSplit
+  unit: number
+  cycles: CmapssCycle[]
+}
+
+export interface SyntheticReplayUnit {
+  split: DatasetSplit
+  unit: number
+  rows: SyntheticRow[]
+}
+
+export interface SubsystemTruth {
+  rul: number
+  failure: boolean
+}
+
+async function fetchUnit<T>(dataset: 'cmapss' | 'synthetic', split: DatasetSplit, unit: string): Promise<T> {
+  const response = await fetch(`/api/datasets/${dataset}?split=${split}&unit=${encodeURIComponent(unit)}`)
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+  return data
+}
+
+export function fetchCmapssUnit(split: DatasetSplit, unit: string): Promise<CmapssReplayUnit> {
+  return fetchUnit('cmapss', split, unit)
+}
+
+export function fetchSyntheticUnit(split: DatasetSplit, unit: string): Promise<SyntheticReplayUnit> {
+  return fetchUnit('synthetic', split, unit)
+}
+
+// Real 50-step window per subsystem model, ending at row `index`
+export function subsystemWindows(unit: SyntheticReplayUnit, index: number): Record<SequenceSubsystemName, number[][]> {
+  return Object.fromEntries(
+    SEQUENCE_SUBSYSTEMS.map((subsystem) => {
+      const steps = unit.rows.map((row) => SUBSYSTEM_FEATURES[subsystem].map((feature) => row.sensors[feature]))
+      return [subsystem, slidingWindow(steps, index)]
+    })
+  ) as Record<SequenceSubsystemName, number[][]>
+}
+
+export function subsystemTruth(row: SyntheticRow): Record<SequenceSubsystemName, SubsystemTruth> {
+  return Object.fromEntries(
+    SEQUENCE_SUBSYSTEMS.map((subsystem) => [subsystem, { rul: row.rul[subsystem], failure: row.failure[subsystem] }])
+  ) as Record<SequenceSubsystemName, SubsystemTruth>
+}
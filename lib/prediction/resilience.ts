@@ -0,0 +1,173 @@
+import { UpstreamError } from './errors'
+import type { SubsystemName } from './subsystems'
+
+// Timeouts, bounded retries and a circuit breaker per upstream model endpoint.
+//
+//   PREDICTION_TIMEOUT_MS=5000              per-attempt timeout
+//   PREDICTION_TIMEOUT_MS_<SUBSYSTEM>=8000  per-subsystem override
+//   PREDICTION_RETRIES=2                    extra attempts after the first
+//   BREAKER_FAILURE_THRESHOLD=5             consecutive failures before opening
+//   BREAKER_COOLDOWN_MS=30000               open -> half-open delay
+
+export interface ResiliencePolicy {
+  timeoutMs: number
+  retries: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+export function getResiliencePolicy(subsystem: SubsystemName): ResiliencePolicy {
+  return {
+    timeoutMs: envNumber(`PREDICTION_TIMEOUT_MS_${subsystem.toUpperCase()}`, envNumber('PREDICTION_TIMEOUT_MS', 5000)),
+    retries: envNumber('PREDICTION_RETRIES', 2),
+    baseDelayMs: 200,
+    maxDelayMs: 2000,
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Abort the attempt after timeoutMs and report it as an UpstreamError
+export async function withTimeout<T>(
+  timeoutMs: number,
+  attempt: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    return await attempt(controller.signal)
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new UpstreamError('timeout', `Upstream did not respond within ${timeoutMs}ms`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// Retry retryable failures with exponential backoff and full jitter
+export async function withRetries<T>(policy: ResiliencePolicy, attempt: () => Promise<T>): Promise<T> {
+  for (let n = 0; ; n++) {
+    try {
+      return await attempt()
+    } catch (error) {
+      const retryable = error instanceof UpstreamError && error.retryable
+      if (!retryable || n >= policy.retries) throw error
+      const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** n)
+      await sleep(Math.random() * ceiling)
+    }
+  }
+}
+
+export type BreakerState = 'closed' | 'open' | 'half-open'
+
+export interface BreakerSnapshot {
+  key: string
+  target: string
+  subsystem: SubsystemName
+  state: BreakerState
+  consecutive_failures: number
+  last_failure?: string
+  opened_at?: number
+  next_attempt_at?: number
+}
+
+export interface CircuitBreaker {
+  run<T>(task: () => Promise<T>): Promise<T>
+  snapshot(): BreakerSnapshot
+}
+
+export function createCircuitBreaker(target: string, subsystem: SubsystemName): CircuitBreaker {
+  const threshold = envNumber('BREAKER_FAILURE_THRESHOLD', 5)
+  const cooldownMs = envNumber('BREAKER_COOLDOWN_MS', 30_000)
+
+  let state: BreakerState = 'closed'
+  let failures = 0
+  let lastFailure: string | undefined
+  let openedAt: number | undefined
+  // Only one trial request is let through while half-open
+  let trialInFlight = false
+
+  const open = () => {
+    state = 'open'
+    openedAt = Date.now()
+  }
+
+  return {
+    async run<T>(task: () => Promise<T>): Promise<T> {
+      if (state === 'open') {
+        const waitMs = (openedAt ?? 0) + cooldownMs - Date.now()
+        if (waitMs > 0) {
+          throw new UpstreamError('circuit-open', `Circuit open for ${subsystem} at ${target}`, { retryAfterMs: waitMs })
+        }
+        state = 'half-open'
+      }
+      // Calls already in flight when the breaker went half-open don't hold the trial slot
+      const trial = state === 'half-open'
+      if (trial) {
+        if (trialInFlight) {
+          throw new UpstreamError('circuit-open', `Circuit half-open for ${subsystem} at ${target}, trial in progress`, { retryAfterMs: 1000 })
+        }
+        trialInFlight = true
+      }
+
+      try {
+        const result = await task()
+        state = 'closed'
+        failures = 0
+        openedAt = undefined
+        return result
+      } catch (error) {
+        // Inputs the model rejects say nothing about its health
+        const countsAsFailure = !(error instanceof UpstreamError) || error.retryable || error.kind === 'invalid-response'
+        if (countsAsFailure) {
+          failures++
+          lastFailure = error instanceof Error ? error.message : String(error)
+          if (state === 'half-open' || failures >= threshold) open()
+        } else if (state === 'half-open') {
+          state = 'closed'
+        }
+        throw error
+      } finally {
+        if (trial) trialInFlight = false
+      }
+    },
+
+    snapshot(): BreakerSnapshot {
+      // Report a due half-open transition even before the next request arrives
+      const due = state === 'open' && openedAt !== undefined && Date.now() >= openedAt + cooldownMs
+      return {
+        key: `${target}|${subsystem}`,
+        target,
+        subsystem,
+        state: due ? 'half-open' : state,
+        consecutive_failures: failures,
+        last_failure: lastFailure,
+        opened_at: openedAt,
+        next_attempt_at: state === 'open' && openedAt !== undefined ? openedAt + cooldownMs : undefined,
+      }
+    },
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>()
+
+export function getCircuitBreaker(target: string, subsystem: SubsystemName): CircuitBreaker {
+  const key = `${target}|${subsystem}`
+  let breaker = breakers.get(key)
+  if (!breaker) {
+    breaker = createCircuitBreaker(target, subsystem)
+    breakers.set(key, breaker)
+  }
+  return breaker
+}
+
+export function listCircuitBreakers(): BreakerSnapshot[] {
+  return Array.from(breakers.values(), (breaker) => breaker.snapshot())
+}
@@ -0,0 +1,140 @@
+import { z } from 'zod'
+import {
+  ENGINE_FEATURES,
+  SEQUENCE_LENGTH,
+  SUBSYSTEMS,
+  SUBSYSTEM_FEATURES,
+  type SequenceSubsystemName,
+  type SubsystemName,
+} from './subsystems'
+
+// Wire format of the prediction API, shared by the routes and the dashboard
+
+const reading = z.number({ invalid_type_error: 'expected a number' }).finite('expected a finite number')
+
+export const engineInputSchema = z
+  .array(reading)
+  .length(ENGINE_FEATURES.length, `expected exactly ${ENGINE_FEATURES.length} features`)
+
+function sequenceInputSchema(subsystem: SequenceSubsystemName) {
+  const features = SUBSYSTEM_FEATURES[subsystem]
+  return z
+    .array(z.array(reading).length(features.length, `expected ${features.length} columns (${features.join(', ')})`))
+    .length(SEQUENCE_LENGTH, `expected exactly ${SEQUENCE_LENGTH} timesteps`)
+}
+
+export const inputSchemas = {
+  engine: engineInputSchema,
+  hydraulic: sequenceInputSchema('hydraulic'),
+  electrical: sequenceInputSchema('electrical'),
+  control_surface: sequenceInputSchema('control_surface'),
+  cabin: sequenceInputSchema('cabin'),
+  altimeter: sequenceInputSchema('altimeter'),
+} satisfies Record<SubsystemName, z.ZodTypeAny>
+
+export const subsystemSchema = z.enum(SUBSYSTEMS)
+export const backendKindSchema = z.enum(['remote', 'local', 'mock'])
+
+const routingFields = {
+  // null, like an empty string, means the configured backends
+  apiBaseUrl: z.string().nullish(),
+  apiAuthHeader: z.string().optional(),
+}
+
+export const predictRequestSchema = z.object({
+  subsystem: subsystemSchema,
+  sequence: z.unknown(),
+  ...routingFields,
+})
+
+export const batchRequestSchema = z
+  .object({
+    engine: z.unknown().optional(),
+    sequences: z.record(z.unknown()).optional(),
+    ...routingFields,
+  })
+  .refine((body) => body.engine !== undefined || Object.keys(body.sequences ?? {}).length > 0, {
+    message: 'Batch must include engine features or subsystem sequences',
+  })
+
+export const predictionResponseSchema = z.object({
+  subsystem: subsystemSchema,
+  prediction: z.number(),
+  model_version: z.string(),
+  backend: backendKindSchema,
+  // Served from the server-side prediction cache rather than a fresh model call
+  cached: z.boolean(),
+  cache_age_ms: z.number().optional(),
+})
+
+// Where an input failed validation. timestep/column index into the tensor;
+// for the engine vector only column is set.
+export const inputIssueSchema = z.object({
+  subsystem: z.string(),
+  timestep: z.number().optional(),
+  column: z.number().optional(),
+  feature: z.string().optional(),
+  message: z.string(),
+})
+
+export const batchItemSchema = predictionResponseSchema
+  .partial()
+  .extend({
+    subsystem: z.string(),
+    status: z.enum(['ok', 'invalid', 'error']),
+    latency_ms: z.number(),
+    error: z.string().optional(),
+    // Machine-readable failure reason, e.g. upstream_timeout or circuit_open
+    code: z.string().optional(),
+    issues: z.array(inputIssueSchema).optional(),
+  })
+
+export const batchResponseSchema = z.object({
+  results: z.array(batchItemSchema),
+  succeeded: z.number(),
+  failed: z.number(),
+  latency_ms: z.number(),
+})
+
+// What the hosted models return: the output field name varies per subsystem
+export const modelOutputSchema = z
+  .object({
+    predicted_RUL: z.number(),
+    prediction: z.number(),
+    rul: z.number(),
+    model_version: z.string(),
+  })
+  .partial()
+  .catchall(z.unknown())
+
+export type PredictionResponse = z.infer<typeof predictionResponseSchema>
+export type InputIssue = z.infer<typeof inputIssueSchema>
+export type BatchItemResult = z.infer<typeof batchItemSchema>
+export type BatchResponse = z.infer<typeof batchResponseSchema>
+export type ModelOutput = z.infer<typeof modelOutputSchema>
+
+function featureName(subsystem: SubsystemName, column: number): string | undefined {
+  if (subsystem === 'engine') return ENGINE_FEATURES[column]
+  return (SUBSYSTEM_FEATURES[subsystem] as readonly string[])[column]
+}
+
+// Validate an input tensor, translating zod paths into timestep/column issues
+export function validatePredictionInput(subsystem: SubsystemName, sequence: unknown): InputIssue[] | null {
+  const parsed = inputSchemas[subsystem].safeParse(sequence)
+  if (parsed.success) return null
+
+  return parsed.error.issues.map((issue) => {
+    const [first, second] = issue.path as number[]
+    if (subsystem === 'engine') {
+      return first === undefined
+        ? { subsystem, message: issue.message }
+        : { subsystem, column: first, feature: featureName(subsystem, first), message: issue.message }
+    }
+    return {
+      subsystem,
+      ...(first !== undefined && { timestep: first }),
+      ...(second !== undefined && { column: second, feature: featureName(subsystem, second) }),
+      message: issue.message,
+    }
+  })
+}
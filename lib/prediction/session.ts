@@ -0,0 +1,91 @@
+import { getLstmApiBase } from './config'
+
+// Per-session routing: the dashboard may point its requests at another model
+// server (staging, on-prem) via the "LSTM API Base URL" field. Only origins on
+// the allowlist are accepted so the route can't be used as an open proxy.
+//
+//   LSTM_API_ALLOWLIST=https://staging.example.com,http://localhost:8080,*.internal.example.com
+//
+// A wildcard matches subdomains over https on the default port; give the
+// scheme and port to allow anything else, e.g. http://*.lab.example.com:8080.
+// The configured LSTM_API_BASE origin is always allowed.
+
+export interface SessionRouting {
+  baseUrl?: string
+  authorization?: string
+}
+
+export type SessionRoutingResult =
+  | { ok: true; routing: SessionRouting }
+  | { ok: false; status: number; error: string }
+
+function getAllowlist(): string[] {
+  const configured = (process.env.LSTM_API_ALLOWLIST ?? '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase().replace(/\/+$/, ''))
+    .filter(Boolean)
+  return [new URL(getLstmApiBase()).origin, ...configured]
+}
+
+const DEFAULT_PORTS: Record<string, string> = { 'http:': '80', 'https:': '443' }
+
+function matchesWildcard(url: URL, entry: string): boolean {
+  const match = /^(?:(https?):\/\/)?\*(\.[^:/]+)(?::(\d+))?$/.exec(entry)
+  if (!match) return false
+  const [, scheme = 'https', suffix, port] = match
+  const protocol = `${scheme}:`
+  return (
+    url.protocol === protocol &&
+    (url.port || DEFAULT_PORTS[protocol]) === (port ?? DEFAULT_PORTS[protocol]) &&
+    url.hostname.toLowerCase().endsWith(suffix)
+  )
+}
+
+function isAllowed(url: URL): boolean {
+  const origin = url.origin.toLowerCase()
+  return getAllowlist().some((entry) => (entry.includes('*') ? matchesWildcard(url, entry) : entry === origin))
+}
+
+// Origin and path without trailing slashes; backends append /predict/... to it
+export function normalizeBaseUrl(url: URL): string {
+  return `${url.origin}${url.pathname}`.replace(/\/+$/, '')
+}
+
+export function resolveSessionRouting(body: {
+  apiBaseUrl?: unknown
+  apiAuthHeader?: unknown
+}): SessionRoutingResult {
+  const { apiBaseUrl, apiAuthHeader } = body
+
+  if (apiAuthHeader !== undefined && typeof apiAuthHeader !== 'string') {
+    return { ok: false, status: 400, error: 'apiAuthHeader must be a string' }
+  }
+  const authorization = apiAuthHeader?.trim() || undefined
+
+  // The header is only ever sent to the server the session named itself,
+  // never to the configured LSTM_API_BASE
+  if (apiBaseUrl === undefined || apiBaseUrl === null || apiBaseUrl === '') {
+    return { ok: true, routing: {} }
+  }
+  if (typeof apiBaseUrl !== 'string') {
+    return { ok: false, status: 400, error: 'apiBaseUrl must be a string' }
+  }
+
+  let url: URL
+  try {
+    url = new URL(apiBaseUrl.trim())
+  } catch {
+    return { ok: false, status: 400, error: `Invalid API base URL: ${apiBaseUrl}` }
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { ok: false, status: 400, error: 'API base URL must use http or https' }
+  }
+  if (!isAllowed(url)) {
+    return { ok: false, status: 403, error: `API base URL ${url.origin} is not on the server allowlist` }
+  }
+
+  return {
+    ok: true,
+    routing: { baseUrl: normalizeBaseUrl(url), authorization },
+  }
+}
@@ -0,0 +1,103 @@
+// Subsystems served by the prediction API and the input each model expects.
+// The engine model takes a flat 24-feature vector (C-MAPSS settings + sensors);
+// every other subsystem takes a 50-timestep window of its own sensors.
+
+export const SUBSYSTEMS = [
+  'engine',
+  'hydraulic',
+  'electrical',
+  'control_surface',
+  'cabin',
+  'altimeter',
+] as const
+
+export type SubsystemName = (typeof SUBSYSTEMS)[number]
+export type SequenceSubsystemName = Exclude<SubsystemName, 'engine'>
+
+export const SEQUENCE_SUBSYSTEMS = SUBSYSTEMS.filter(
+  (name): name is SequenceSubsystemName => name !== 'engine'
+)
+
+export const SEQUENCE_LENGTH = 50
+
+// Order matters: this is the column order the engine model was trained on
+export const ENGINE_FEATURES = [
+  'setting_1',
+  'setting_2',
+  'setting_3',
+  'fan_inlet_temperature',
+  'lpc_pressure_ratio',
+  'hpc_pressure_ratio',
+  'lpt_temperature',
+  'hpt_temperature',
+  'fuel_flow_rate',
+  'oil_pressure',
+  'vibration_level',
+  'exhaust_gas_temperature',
+  'shaft_speed',
+  'ambient_air_pressure',
+  'ambient_air_temperature',
+  'total_air_pressure',
+  'static_pressure_ratio',
+  'torque',
+  'acceleration',
+  'compressor_discharge_temperature',
+  'combustion_chamber_pressure',
+  'fuel_temperature',
+  'nozzle_pressure_ratio',
+  'oil_temperature',
+] as const
+
+export type EngineFeatureName = (typeof ENGINE_FEATURES)[number]
+
+// Column order of each timestep in a subsystem window
+export const SUBSYSTEM_FEATURES = {
+  hydraulic: ['hydraulic_pressure', 'hydraulic_flow', 'hydraulic_temp'],
+  electrical: ['electrical_voltage', 'electrical_current'],
+  control_surface: ['control_surface_deflection'],
+  cabin: ['cabin_pressure'],
+  altimeter: ['altimeter_drift'],
+} as const satisfies Record<SequenceSubsystemName, readonly string[]>
+
+export type SubsystemFeatureName =
+  (typeof SUBSYSTEM_FEATURES)[SequenceSubsystemName][number]
+
+// Units as shown on the dashboard; '' for ratios and normalized settings
+export const FEATURE_UNITS: Record<EngineFeatureName | SubsystemFeatureName, string> = {
+  setting_1: '',
+  setting_2: '',
+  setting_3: '',
+  fan_inlet_temperature: '°R',
+  lpc_pressure_ratio: '',
+  hpc_pressure_ratio: '',
+  lpt_temperature: '°R',
+  hpt_temperature: '°R',
+  fuel_flow_rate: '',
+  oil_pressure: 'psi',
+  vibration_level: '',
+  exhaust_gas_temperature: '°R',
+  shaft_speed: '',
+  ambient_air_pressure: '',
+  ambient_air_temperature: '°R',
+  total_air_pressure: '',
+  static_pressure_ratio: '',
+  torque: '',
+  acceleration: '',
+  compressor_discharge_temperature: '°R',
+  combustion_chamber_pressure: '',
+  fuel_temperature: '°R',
+  nozzle_pressure_ratio: '',
+  oil_temperature: '°R',
+  hydraulic_pressure: 'psi',
+  hydraulic_flow: 'gpm',
+  hydraulic_temp: '°F',
+  electrical_voltage: 'V',
+  electrical_current: 'A',
+  control_surface_deflection: '°',
+  cabin_pressure: 'kPa',
+  altimeter_drift: 'ft',
+}
+
+export function isSubsystemName(value: unknown): value is SubsystemName {
+  return typeof value === 'string' && (SUBSYSTEMS as readonly string[]).includes(value)
+}
@@ -0,0 +1,24 @@
+import type { SubsystemName } from './subsystems'
+
+export type BackendKind = 'remote' | 'local' | 'mock'
+
+// Engine input is number[24]; subsystem input is number[50][columns]
+export type PredictionInput = number[] | number[][]
+
+export interface BackendPrediction {
+  rul: number
+  modelVersion: string
+  // Untouched payload from the model, kept for debugging
+  raw?: unknown
+}
+
+export interface PredictionBackend {
+  kind: BackendKind
+  // Identifies the model server behind the backend, e.g. "remote:https://..."
+  id: string
+  // Known up front for in-process backends; remote versions are learned from responses
+  modelVersion?: string
+  predict(subsystem: SubsystemName, sequence: PredictionInput): Promise<BackendPrediction>
+  // Resolves when the model for this subsystem can take requests; rejects with the reason
+  checkReady(subsystem: SubsystemName): Promise<void>
+}
@@ -0,0 +1,14 @@
+import type { SubsystemName } from './subsystems'
+
+// Last model version each backend reported per subsystem. Remote servers only
+// reveal their version in prediction responses, so this is learned as we go.
+
+const versions = new Map<string, string>()
+
+export function recordModelVersion(backendId: string, subsystem: SubsystemName, version: string) {
+  versions.set(`${backendId}|${subsystem}`, version)
+}
+
+export function getModelVersion(backendId: string, subsystem: SubsystemName): string | undefined {
+  return versions.get(`${backendId}|${subsystem}`)
+}
@@ -0,0 +1,28 @@
+import { SEQUENCE_LENGTH } from './subsystems'
+
+// How to fill a model window while there isn't enough history yet:
+//   repeat-first  front-pad with the oldest reading (what the local backend trains on)
+//   zeros         front-pad with zeros
+//   none          no window until the history is full
+export type WindowPadding = 'repeat-first' | 'zeros' | 'none'
+
+export const WINDOW_PADDINGS: WindowPadding[] = ['repeat-first', 'zeros', 'none']
+
+export function padWindow(
+  steps: number[][],
+  padding: WindowPadding,
+  length: number = SEQUENCE_LENGTH
+): number[][] | null {
+  const window = steps.slice(-length)
+  if (window.length === length) return window
+  if (window.length === 0 || padding === 'none') return null
+  const filler = padding === 'zeros' ? window[0].map(() => 0) : window[0]
+  return [...Array.from({ length: length - window.length }, () => [...filler]), ...window]
+}
+
+// The `length` readings ending at `end`, padded with the oldest one while there
+// isn't enough history yet. The local backend trains on windows built this way,
+// so replays must build them the same.
+export function slidingWindow(steps: number[][], end: number, length: number = SEQUENCE_LENGTH): number[][] {
+  return padWindow(steps.slice(0, end + 1), 'repeat-first', length) as number[][]
+}
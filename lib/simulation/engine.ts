@@ -0,0 +1,212 @@
+import { applyFaults, type FaultSpec } from './faults'
+import {
+  PHASE_STRESS,
+  cabinAltitude,
+  flightConditions,
+  getFlightProfile,
+  pressureAtAltitude,
+  profileDuration,
+  temperatureAtAltitude,
+  type FlightPhase,
+} from './profiles'
+import { nextRandom, type Random } from './random'
+import type { EngineSensorData, SubsystemSensorData } from './sensors'
+
+// Pure flight simulation: given a state, produce the next one-second tick.
+// All randomness comes from the seeded PRNG state carried in SimulationState,
+// so the same seed, profile, faults and starting sensors always yield the same trajectory.
+
+// Engines spool from idle to takeoff power in about 10 seconds
+const THROTTLE_SPOOL_PER_S = 0.1
+// Mechanical stress (oil, vibration) builds up over about 45 seconds at full power
+const STRESS_SOAK_PER_S = 1 / 45
+
+export interface SimulationState {
+  seed: number
+  // PRNG state after the last tick
+  rng: number
+  profile: string
+  time: number
+  phase: FlightPhase
+  speed: number
+  altitude: number
+  // Actual throttle, lagging the profile's commanded throttle
+  throttle: number
+  // 0-1 heat soak following the throttle
+  stress: number
+  // Scheduled faults, part of the run's record
+  faults: FaultSpec[]
+  // Sensor model without faults; the next tick steps from here
+  healthy: { engine: EngineSensorData; subsystems: SubsystemSensorData }
+  // Sensor readings with active faults applied
+  engine: EngineSensorData
+  subsystems: SubsystemSensorData
+}
+
+// What the sensor models react to on a tick
+export interface FlightLoad {
+  phase: FlightPhase
+  altitude: number
+  throttle: number
+  stress: number
+}
+
+export function createSimulation(
+  seed: number,
+  engine: EngineSensorData,
+  subsystems: SubsystemSensorData,
+  profile: string,
+  faults: FaultSpec[] = []
+): SimulationState {
+  const start = flightConditions(getFlightProfile(profile), 0)
+  return {
+    seed,
+    rng: seed | 0,
+    profile,
+    time: 0,
+    phase: start.phase,
+    speed: 0,
+    altitude: 0,
+    throttle: 0,
+    stress: 0,
+    faults,
+    healthy: { engine: { ...engine }, subsystems: { ...subsystems } },
+    engine: { ...engine },
+    subsystems: { ...subsystems },
+  }
+}
+
+export function simulationDuration(state: SimulationState): number {
+  return profileDuration(getFlightProfile(state.profile))
+}
+
+// Move toward a target by at most `maxStep`
+function approach(value: number, target: number, maxStep: number): number {
+  return value + Math.max(-maxStep, Math.min(maxStep, target - value))
+}
+
+function lerp(from: number, to: number, amount: number): number {
+  return from + (to - from) * amount
+}
+
+export function stepSimulation(state: SimulationState): SimulationState {
+  let rng = state.rng
+  const random: Random = () => {
+    const [value, next] = nextRandom(rng)
+    rng = next
+    return value
+  }
+
+  const time = state.time + 1
+  const scheduled = flightConditions(getFlightProfile(state.profile), time)
+  const throttle = approach(state.throttle, scheduled.throttle, THROTTLE_SPOOL_PER_S)
+  const stress = approach(state.stress, throttle, STRESS_SOAK_PER_S)
+  const load: FlightLoad = { phase: scheduled.phase, altitude: scheduled.altitude_ft, throttle, stress }
+
+  const healthy = {
+    engine: stepEngineSensors(state.healthy.engine, load, random),
+    subsystems: stepSubsystemSensors(state.healthy.subsystems, load, random),
+  }
+  const { engine, subsystems } = applyFaults(healthy.engine, healthy.subsystems, state.faults, time)
+  return {
+    ...state,
+    rng,
+    time,
+    phase: scheduled.phase,
+    speed: scheduled.speed_kt,
+    altitude: scheduled.altitude_ft,
+    throttle,
+    stress,
+    healthy,
+    engine,
+    subsystems,
+  }
+}
+
+// Headless run of the whole profile, first tick to last
+export function runSimulation(initial: SimulationState, ticks: number = simulationDuration(initial)): SimulationState[] {
+  const states: SimulationState[] = []
+  let state = initial
+  for (let i = 0; i < ticks; i++) {
+    state = stepSimulation(state)
+    states.push(state)
+  }
+  return states
+}
+
+// Engine parameters move toward values set by throttle, heat soak and altitude.
+// Targets run from typical idle/ground values at zero load to the takeoff limits at full load.
+export function stepEngineSensors(prev: EngineSensorData, load: FlightLoad, random: Random): EngineSensorData {
+  const newData = { ...prev }
+  const { throttle, stress, altitude } = load
+
+  // FUEL - Flow follows throttle, temperature rises slightly
+  newData.fuel_flow_rate = approach(prev.fuel_flow_rate, lerp(2200, 4000, throttle), 330) // Max 4000 lbs/hr at full throttle
+  newData.fuel_temperature = approach(prev.fuel_temperature, lerp(75, 120, throttle), 5) // Max 120°F
+
+  // ENGINE TEMPERATURES
+  newData.exhaust_gas_temperature = approach(prev.exhaust_gas_temperature, lerp(1800, 2200, throttle), 200) // Max 2200°R (~1740°F)
+  newData.hpt_temperature = approach(prev.hpt_temperature, lerp(2400, 2600, throttle), 150) // Max 2600°R (~2140°F)
+  newData.lpt_temperature = approach(prev.lpt_temperature, lerp(1400, 1600, throttle), 100) // Max 1600°R (~1140°F)
+  newData.compressor_discharge_temperature = approach(prev.compressor_discharge_temperature, lerp(700, 900, throttle), 100) // Max 900°F
+
+  // PRESSURES - Rise with engine power
+  newData.lpc_pressure_ratio = approach(prev.lpc_pressure_ratio, lerp(1.5, 2.5, throttle), 0.5) // Max 2.5
+  newData.hpc_pressure_ratio = approach(prev.hpc_pressure_ratio, lerp(15.85, 25, throttle), 5) // Max 25
+  newData.total_air_pressure = approach(prev.total_air_pressure, lerp(16.2, 25, throttle), 5) // Max 25 psi
+  newData.combustion_chamber_pressure = approach(prev.combustion_chamber_pressure, lerp(250, 400, throttle), 100) // Max 400 psi
+
+  // MECHANICAL STRESS - Builds with sustained load
+  newData.vibration_level = approach(prev.vibration_level, lerp(0.15, 0.3, stress), 0.05) // Max 0.3 in/sec
+  newData.oil_pressure = approach(prev.oil_pressure, lerp(55, 45, stress), 2) // Min 45 psi
+  newData.oil_temperature = approach(prev.oil_temperature, lerp(180, 220, stress), 10) // Max 220°F
+
+  // SHAFT AND MECHANICAL
+  newData.shaft_speed = approach(prev.shaft_speed, lerp(0.85, 1.0, throttle), 0.10) // Max 100% speed
+  newData.torque = approach(prev.torque, lerp(850, 1200, throttle), 200) // Max 1200 ft-lbs
+
+  // AMBIENT CONDITIONS - Standard atmosphere at the current altitude
+  newData.ambient_air_pressure = pressureAtAltitude(altitude)
+  newData.ambient_air_temperature = temperatureAtAltitude(altitude)
+  newData.fan_inlet_temperature = approach(prev.fan_inlet_temperature, newData.ambient_air_temperature + throttle * 10, 10)
+
+  // Add realistic variation (±0.5% for critical parameters)
+  Object.keys(newData).forEach(key => {
+    if (key !== 'setting_1' && key !== 'setting_2' && key !== 'setting_3') {
+      const variation = 1 + (random() - 0.5) * 0.01 // Reduced variation for realism
+      newData[key as keyof EngineSensorData] = newData[key as keyof EngineSensorData] * variation
+    }
+  })
+
+  return newData
+}
+
+// Subsystem parameters under the current phase's demand
+export function stepSubsystemSensors(prev: SubsystemSensorData, load: FlightLoad, random: Random): SubsystemSensorData {
+  const newData = { ...prev }
+  const demand = PHASE_STRESS[load.phase]
+
+  // HYDRAULIC SYSTEM - Gear, flaps and brakes draw pressure down and heat the fluid
+  newData.hydraulic_pressure = approach(prev.hydraulic_pressure, lerp(3000, 2800, demand.hydraulic), 50) // Min 2800 psi
+  newData.hydraulic_flow = approach(prev.hydraulic_flow, lerp(8.5, 12, demand.hydraulic), 2) // Max 12 gpm
+  newData.hydraulic_temp = approach(prev.hydraulic_temp, lerp(120, 160, demand.hydraulic), 2) // Max 160°F
+
+  // ELECTRICAL SYSTEM - Voltage sags as the load grows
+  newData.electrical_voltage = approach(prev.electrical_voltage, lerp(28.5, 26.5, demand.electrical), 0.5) // Min 26.5V
+  newData.electrical_current = approach(prev.electrical_current, lerp(15, 25, demand.electrical), 8) // Max 25A
+
+  // CONTROL SURFACE - Typical deflection for the phase
+  newData.control_surface_deflection = demand.deflection_deg + (random() - 0.5) * 2 // ±1 degree variation
+
+  // CABIN PRESSURE - Follows the pressurisation schedule, so the differential opens up in the climb
+  newData.cabin_pressure = pressureAtAltitude(cabinAltitude(load.altitude)) + (random() - 0.5) * 0.1 // ±0.05 psi variation
+
+  // ALTIMETER - Drift accumulates faster and further the higher the aircraft flies
+  const altitudeFactor = 1 + load.altitude / 10000
+  newData.altimeter_drift = Math.max(
+    Math.min(prev.altimeter_drift + (random() - 0.5) * 0.5 * altitudeFactor, 8 + load.altitude / 2500),
+    -3 - load.altitude / 5000
+  ) // Drift between -3 and +8 feet on the ground
+
+  return newData
+}
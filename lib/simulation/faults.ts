@@ -0,0 +1,147 @@
+import type { SubsystemName } from '../prediction/subsystems'
+import type { EngineSensorData, SubsystemSensorData } from './sensors'
+
+// Injected failures. A fault is scheduled on the simulation timeline and
+// distorts the sensor readings from its onset on, growing along its ramp to
+// full severity. Faults sit on top of the healthy sensor model, so removing
+// one never leaves the physics in a state it couldn't have reached by itself.
+
+export const FAULT_KINDS = [
+  'hydraulic_pressure_loss',
+  'generator_failure',
+  'stuck_control_surface',
+  'cabin_leak',
+  'altimeter_bias',
+  'egt_exceedance',
+  'vibration_rise',
+] as const
+export type FaultKind = (typeof FAULT_KINDS)[number]
+
+// step: full severity at onset; linear: straight ramp; exponential: slow start, accelerating
+export const FAULT_RAMPS = ['step', 'linear', 'exponential'] as const
+export type FaultRamp = (typeof FAULT_RAMPS)[number]
+
+export interface FaultSpec {
+  id: string
+  kind: FaultKind
+  // Seconds into the run
+  onset_s: number
+  ramp: FaultRamp
+  // Seconds from onset to full severity (ignored for step)
+  ramp_s: number
+  // 0-1, scales the fault's effect at full development
+  severity: number
+}
+
+export interface FaultInfo {
+  label: string
+  description: string
+  subsystem: SubsystemName
+}
+
+export const FAULT_CATALOG: Record<FaultKind, FaultInfo> = {
+  hydraulic_pressure_loss: {
+    label: 'Hydraulic pressure loss',
+    description: 'Leak or pump failure: pressure and flow fall, fluid heats up',
+    subsystem: 'hydraulic',
+  },
+  generator_failure: {
+    label: 'Generator failure',
+    description: 'Generator drops off line: bus voltage and current fall toward battery levels',
+    subsystem: 'electrical',
+  },
+  stuck_control_surface: {
+    label: 'Stuck control surface',
+    description: 'Actuator jam: deflection locks toward a hard-over angle',
+    subsystem: 'control_surface',
+  },
+  cabin_leak: {
+    label: 'Cabin leak',
+    description: 'Pressure hull leak: cabin pressure bleeds toward outside air pressure',
+    subsystem: 'cabin',
+  },
+  altimeter_bias: {
+    label: 'Altimeter bias',
+    description: 'Static port or sensor error: a growing offset on the altimeter reading',
+    subsystem: 'altimeter',
+  },
+  egt_exceedance: {
+    label: 'EGT exceedance',
+    description: 'Hot section distress: exhaust and turbine temperatures climb past limits',
+    subsystem: 'engine',
+  },
+  vibration_rise: {
+    label: 'Rising vibration',
+    description: 'Bearing or fan damage: vibration climbs and oil temperature follows',
+    subsystem: 'engine',
+  },
+}
+
+// Hard-over angle a jammed surface locks toward
+const STUCK_DEFLECTION_DEG = 20
+
+// How developed a fault is at `time`, 0 before onset up to its severity
+export function faultIntensity(fault: FaultSpec, time: number): number {
+  const elapsed = time - fault.onset_s
+  if (elapsed < 0) return 0
+  if (fault.ramp === 'step' || fault.ramp_s <= 0) return fault.severity
+  const progress = Math.min(elapsed / fault.ramp_s, 1)
+  const shape = fault.ramp === 'linear' ? progress : (Math.exp(3 * progress) - 1) / (Math.exp(3) - 1)
+  return fault.severity * shape
+}
+
+export function activeFaults(faults: FaultSpec[], time: number): FaultSpec[] {
+  return faults.filter((fault) => time >= fault.onset_s)
+}
+
+function lerp(from: number, to: number, amount: number): number {
+  return from + (to - from) * amount
+}
+
+// Sensor readings with every fault that has started by `time` applied
+export function applyFaults(
+  engine: EngineSensorData,
+  subsystems: SubsystemSensorData,
+  faults: FaultSpec[],
+  time: number
+): { engine: EngineSensorData; subsystems: SubsystemSensorData } {
+  const faultedEngine = { ...engine }
+  const faultedSubsystems = { ...subsystems }
+
+  for (const fault of faults) {
+    const i = faultIntensity(fault, time)
+    if (i <= 0) continue
+
+    switch (fault.kind) {
+      case 'hydraulic_pressure_loss':
+        faultedSubsystems.hydraulic_pressure *= 1 - 0.7 * i // Down to ~900 psi
+        faultedSubsystems.hydraulic_flow *= 1 - 0.5 * i
+        faultedSubsystems.hydraulic_temp += 40 * i
+        break
+      case 'generator_failure':
+        faultedSubsystems.electrical_voltage -= 4.5 * i // ~24V, battery only
+        faultedSubsystems.electrical_current *= 1 - 0.6 * i
+        break
+      case 'stuck_control_surface':
+        faultedSubsystems.control_surface_deflection = lerp(faultedSubsystems.control_surface_deflection, STUCK_DEFLECTION_DEG, i)
+        break
+      case 'cabin_leak':
+        faultedSubsystems.cabin_pressure = lerp(faultedSubsystems.cabin_pressure, faultedEngine.ambient_air_pressure, i)
+        break
+      case 'altimeter_bias':
+        faultedSubsystems.altimeter_drift += 40 * i
+        break
+      case 'egt_exceedance':
+        faultedEngine.exhaust_gas_temperature += 300 * i // Past the 2200°R limit
+        faultedEngine.hpt_temperature += 150 * i
+        faultedEngine.lpt_temperature += 100 * i
+        break
+      case 'vibration_rise':
+        faultedEngine.vibration_level += 0.5 * i
+        faultedEngine.oil_temperature += 30 * i
+        break
+    }
+  }
+
+  return { engine: faultedEngine, subsystems: faultedSubsystems }
+}
@@ -0,0 +1,165 @@
+// Flight profiles: a profile is an ordered list of phase segments, each
+// ending at a target speed and altitude reached linearly over its duration.
+// A segment starts where the previous one ended (the first from a standstill
+// on the ground). Durations are compressed so a whole flight fits a demo.
+
+export const FLIGHT_PHASES = ['taxi', 'takeoff', 'climb', 'cruise', 'descent', 'approach', 'landing'] as const
+export type FlightPhase = (typeof FLIGHT_PHASES)[number]
+
+export const PHASE_LABELS: Record<FlightPhase, string> = {
+  taxi: 'Taxi',
+  takeoff: 'Takeoff',
+  climb: 'Climb',
+  cruise: 'Cruise',
+  descent: 'Descent',
+  approach: 'Approach',
+  landing: 'Landing',
+}
+
+export interface PhaseSegment {
+  phase: FlightPhase
+  duration_s: number
+  // Values reached at the end of the segment
+  speed_kt: number
+  altitude_ft: number
+  // Commanded throttle, 0 (idle) to 1 (takeoff power); the engine spools toward it
+  throttle: number
+}
+
+export interface FlightProfile {
+  id: string
+  name: string
+  description: string
+  segments: PhaseSegment[]
+}
+
+// How hard each phase works the subsystems, 0 (idle) to 1 (peak demand)
+export interface PhaseStress {
+  // Gear, flaps, spoilers, brakes and steering
+  hydraulic: number
+  // Avionics, lighting, galley and anti-ice
+  electrical: number
+  // Typical control surface deflection in degrees
+  deflection_deg: number
+}
+
+export const PHASE_STRESS: Record<FlightPhase, PhaseStress> = {
+  taxi: { hydraulic: 0.4, electrical: 0.4, deflection_deg: 0 },
+  takeoff: { hydraulic: 1, electrical: 1, deflection_deg: 8 },
+  climb: { hydraulic: 0.5, electrical: 0.7, deflection_deg: 4 },
+  cruise: { hydraulic: 0.1, electrical: 0.5, deflection_deg: 1 },
+  descent: { hydraulic: 0.3, electrical: 0.5, deflection_deg: 2 },
+  approach: { hydraulic: 0.8, electrical: 0.8, deflection_deg: 10 },
+  landing: { hydraulic: 1, electrical: 0.9, deflection_deg: 12 },
+}
+
+export const FLIGHT_PROFILES: FlightProfile[] = [
+  {
+    // The original simulation: 0-175 knots over 45 seconds, then hold V1
+    id: 'takeoff-roll',
+    name: 'Takeoff roll (50 s)',
+    description: 'Full-power takeoff roll to V1, the highest-stress part of a flight',
+    segments: [
+      { phase: 'takeoff', duration_s: 45, speed_kt: 175, altitude_ft: 0, throttle: 1 },
+      { phase: 'takeoff', duration_s: 5, speed_kt: 175, altitude_ft: 0, throttle: 1 },
+    ],
+  },
+  {
+    id: 'traffic-pattern',
+    name: 'Traffic pattern (5 min)',
+    description: 'Takeoff, circuit at 1,500 ft and a full-stop landing',
+    segments: [
+      { phase: 'taxi', duration_s: 20, speed_kt: 15, altitude_ft: 0, throttle: 0.25 },
+      { phase: 'takeoff', duration_s: 40, speed_kt: 160, altitude_ft: 0, throttle: 1 },
+      { phase: 'climb', duration_s: 60, speed_kt: 180, altitude_ft: 1500, throttle: 0.85 },
+      { phase: 'cruise', duration_s: 60, speed_kt: 180, altitude_ft: 1500, throttle: 0.6 },
+      { phase: 'descent', duration_s: 30, speed_kt: 160, altitude_ft: 1000, throttle: 0.35 },
+      { phase: 'approach', duration_s: 50, speed_kt: 140, altitude_ft: 50, throttle: 0.45 },
+      { phase: 'landing', duration_s: 40, speed_kt: 0, altitude_ft: 0, throttle: 0.15 },
+    ],
+  },
+  {
+    id: 'short-haul',
+    name: 'Short-haul flight (8 min)',
+    description: 'Gate to gate with a climb to FL350, compressed in time',
+    segments: [
+      { phase: 'taxi', duration_s: 30, speed_kt: 15, altitude_ft: 0, throttle: 0.25 },
+      { phase: 'takeoff', duration_s: 40, speed_kt: 160, altitude_ft: 0, throttle: 1 },
+      { phase: 'climb', duration_s: 120, speed_kt: 450, altitude_ft: 35000, throttle: 0.9 },
+      { phase: 'cruise', duration_s: 90, speed_kt: 460, altitude_ft: 35000, throttle: 0.75 },
+      { phase: 'descent', duration_s: 90, speed_kt: 280, altitude_ft: 10000, throttle: 0.3 },
+      { phase: 'approach', duration_s: 60, speed_kt: 140, altitude_ft: 50, throttle: 0.45 },
+      { phase: 'landing', duration_s: 40, speed_kt: 0, altitude_ft: 0, throttle: 0.15 },
+    ],
+  },
+]
+
+export const DEFAULT_PROFILE_ID = 'takeoff-roll'
+
+export function getFlightProfile(id: string): FlightProfile {
+  const profile = FLIGHT_PROFILES.find((candidate) => candidate.id === id)
+  if (!profile) {
+    throw new Error(`Unknown flight profile "${id}"`)
+  }
+  return profile
+}
+
+export function profileDuration(profile: FlightProfile): number {
+  return profile.segments.reduce((total, segment) => total + segment.duration_s, 0)
+}
+
+export interface FlightConditions {
+  phase: FlightPhase
+  // Seconds into the current segment
+  phase_time: number
+  speed_kt: number
+  altitude_ft: number
+  throttle: number
+}
+
+// Scheduled speed, altitude and throttle at `time` seconds into the profile.
+// Past the end the aircraft holds the last segment's values.
+export function flightConditions(profile: FlightProfile, time: number): FlightConditions {
+  let start = 0
+  let speed = 0
+  let altitude = 0
+  for (const segment of profile.segments) {
+    if (time <= start + segment.duration_s) {
+      const progress = Math.max(0, time - start) / segment.duration_s
+      return {
+        phase: segment.phase,
+        phase_time: Math.max(0, time - start),
+        speed_kt: speed + (segment.speed_kt - speed) * progress,
+        altitude_ft: altitude + (segment.altitude_ft - altitude) * progress,
+        throttle: segment.throttle,
+      }
+    }
+    start += segment.duration_s
+    speed = segment.speed_kt
+    altitude = segment.altitude_ft
+  }
+  return flightConditions(profile, start)
+}
+
+// International Standard Atmosphere (troposphere, capped at the tropopause)
+const SEA_LEVEL_PRESSURE_PSI = 14.696
+const SEA_LEVEL_TEMPERATURE_R = 518.67
+const TROPOPAUSE_FT = 36089
+
+export function pressureAtAltitude(altitude_ft: number): number {
+  const h = Math.min(Math.max(altitude_ft, 0), TROPOPAUSE_FT)
+  return SEA_LEVEL_PRESSURE_PSI * Math.pow(1 - 6.8756e-6 * h, 5.2559)
+}
+
+export function temperatureAtAltitude(altitude_ft: number): number {
+  const h = Math.min(Math.max(altitude_ft, 0), TROPOPAUSE_FT)
+  return SEA_LEVEL_TEMPERATURE_R - 0.003566 * h
+}
+
+// Pressurisation schedule: cabin altitude climbs to 8,000 ft at FL410
+const MAX_CABIN_ALTITUDE_FT = 8000
+const MAX_CERTIFIED_ALTITUDE_FT = 41000
+
+export function cabinAltitude(altitude_ft: number): number {
+  return Math.min(MAX_CABIN_ALTITUDE_FT, Math.max(0, altitude_ft) * (MAX_CABIN_ALTITUDE_FT / MAX_CERTIFIED_ALTITUDE_FT))
+}
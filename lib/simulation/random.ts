@@ -0,0 +1,32 @@
+// Seeded PRNG so a simulation run can be replayed exactly from its seed.
+// mulberry32: tiny, fast and good enough for sensor noise; not for crypto.
+
+export type Random = () => number
+
+// One step of mulberry32: the value in [0, 1) and the state to continue from
+export function nextRandom(state: number): [number, number] {
+  const next = (state + 0x6d2b79f5) | 0
+  let t = next
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next]
+}
+
+export function createRandom(seed: number): Random {
+  let state = seed | 0
+  return () => {
+    const [value, next] = nextRandom(state)
+    state = next
+    return value
+  }
+}
+
+// Seeds are shown to operators, so keep them short positive integers
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 1_000_000_000)
+}
+
+export function parseSeed(text: string): number | null {
+  const seed = Number(text.trim())
+  return text.trim() !== '' && Number.isSafeInteger(seed) && seed >= 0 ? seed : null
+}
@@ -0,0 +1,193 @@
+import { alertLevelFor, isAtLeast, type RiskLevel } from '../prediction/alerts'
+import { ModelInputError } from '../prediction/errors'
+import { createSensorHistory } from '../prediction/history'
+import { ENGINE_FEATURES, SEQUENCE_SUBSYSTEMS, type SubsystemName } from '../prediction/subsystems'
+import type { BackendPrediction, PredictionBackend } from '../prediction/types'
+import { simulationDuration, stepSimulation } from './engine'
+import { createScenarioSimulation, describeExpectation, type AlertExpectation, type Scenario } from './scenarios'
+
+// Headless scenario runs: step the simulation, predict every few seconds from
+// the same sensor windows the dashboard builds, collect the alerts and check
+// them against the scenario's expectations. Alert levels come from the
+// backend's RUL as returned, which is also the number the dashboard shows.
+
+// The dashboard predicts every 3 simulated seconds
+export const PREDICTION_INTERVAL_S = 3
+
+export type AlertSeverity = 'warning' | 'critical'
+
+export interface AlertEvent {
+  time: number
+  subsystem: SubsystemName
+  level: AlertSeverity
+  // null when the model refused the input: a caution, as on the dashboard
+  rul: number | null
+}
+
+export interface ExpectationResult {
+  description: string
+  passed: boolean
+  // Why it failed, or what satisfied it
+  detail: string
+}
+
+export interface ScenarioRunResult {
+  name: string
+  ticks: number
+  duration_ms: number
+  alerts: AlertEvent[]
+  results: ExpectationResult[]
+  passed: boolean
+  // Set when the run itself broke, e.g. the backend threw
+  error?: string
+}
+
+const LEVEL_FOR: Record<AlertSeverity, RiskLevel> = { warning: 'warning', critical: 'danger' }
+
+// Alerts raised at each prediction tick, as the sidebar would show them
+export async function collectAlerts(
+  scenario: Scenario,
+  backend: PredictionBackend,
+  interval: number = PREDICTION_INTERVAL_S
+): Promise<{ ticks: number; alerts: AlertEvent[] }> {
+  let state = createScenarioSimulation(scenario)
+  const ticks = simulationDuration(state)
+  const history = createSensorHistory()
+  const alerts: AlertEvent[] = []
+
+  for (let i = 0; i < ticks; i++) {
+    state = stepSimulation(state)
+    history.record(state.subsystems)
+    if (state.time % interval !== 0) continue
+
+    const inputs: [SubsystemName, number[] | number[][] | null][] = [
+      ['engine', ENGINE_FEATURES.map((key) => state.engine[key])],
+      ...SEQUENCE_SUBSYSTEMS.map((subsystem): [SubsystemName, number[][] | null] => [
+        subsystem,
+        history.window(subsystem, 'repeat-first'),
+      ]),
+    ]
+    for (const [subsystem, sequence] of inputs) {
+      if (!sequence) continue
+      let prediction: BackendPrediction
+      try {
+        prediction = await backend.predict(subsystem, sequence)
+      } catch (error) {
+        // The dashboard shows refused inputs as unavailable and raises a
+        // warning for them, never a critical alert
+        if (!(error instanceof ModelInputError)) throw error
+        alerts.push({ time: state.time, subsystem, level: 'warning', rul: null })
+        continue
+      }
+      const { rul } = prediction
+      const level = alertLevelFor(rul)
+      if (level !== 'safe') {
+        alerts.push({ time: state.time, subsystem, level: level === 'danger' ? 'critical' : 'warning', rul })
+      }
+    }
+  }
+
+  return { ticks, alerts }
+}
+
+function formatRul(rul: number | null): string {
+  return rul === null ? 'prediction unavailable' : `RUL ${rul.toFixed(1)}`
+}
+
+export function checkExpectation(expectation: AlertExpectation, alerts: AlertEvent[]): ExpectationResult {
+  const description = expectation.description ?? describeExpectation(expectation)
+  const after = expectation.after_s ?? 0
+  const before = expectation.before_s ?? Infinity
+  const matching = alerts.filter(
+    (alert) =>
+      (!expectation.subsystem || alert.subsystem === expectation.subsystem) &&
+      isAtLeast(LEVEL_FOR[alert.level], LEVEL_FOR[expectation.level]) &&
+      alert.time >= after &&
+      alert.time <= before
+  )
+  const first = matching[0]
+  const describe = (alert: AlertEvent) => `${alert.subsystem} ${alert.level} at t=${alert.time}s (${formatRul(alert.rul)})`
+
+  if (expectation.fires) {
+    return first
+      ? { description, passed: true, detail: `first: ${describe(first)}` }
+      : { description, passed: false, detail: `expected alert did not fire (${describeExpectation(expectation)})` }
+  }
+  return first
+    ? { description, passed: false, detail: `unexpected ${describe(first)}` }
+    : { description, passed: true, detail: 'no matching alerts' }
+}
+
+export async function runScenarioAssertions(scenario: Scenario, backend: PredictionBackend): Promise<ScenarioRunResult> {
+  const started = Date.now()
+  try {
+    const { ticks, alerts } = await collectAlerts(scenario, backend)
+    const results = scenario.expect.map((expectation) => checkExpectation(expectation, alerts))
+    return {
+      name: scenario.name,
+      ticks,
+      duration_ms: Date.now() - started,
+      alerts,
+      results,
+      passed: results.every((result) => result.passed),
+    }
+  } catch (error) {
+    return {
+      name: scenario.name,
+      ticks: 0,
+      duration_ms: Date.now() - started,
+      alerts: [],
+      results: [],
+      passed: false,
+      error: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// JUnit XML: one suite per scenario, one test case per expectation
+export function toJUnit(runs: { id: string; result: ScenarioRunResult }[]): string {
+  const count = (result: ScenarioRunResult) => result.error ? 1 : result.results.length
+  const failures = (result: ScenarioRunResult) => result.results.filter((item) => !item.passed).length
+  const seconds = (ms: number) => (ms / 1000).toFixed(3)
+
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>']
+  const total = runs.reduce((sum, { result }) => sum + count(result), 0)
+  const failed = runs.reduce((sum, { result }) => sum + failures(result), 0)
+  const errors = runs.filter(({ result }) => result.error).length
+  const time = runs.reduce((sum, { result }) => sum + result.duration_ms, 0)
+  lines.push(`<testsuites name="scenarios" tests="${total}" failures="${failed}" errors="${errors}" time="${seconds(time)}">`)
+
+  for (const { id, result } of runs) {
+    lines.push(
+      `  <testsuite name="${xml(result.name)}" tests="${count(result)}" failures="${failures(result)}" errors="${result.error ? 1 : 0}" time="${seconds(result.duration_ms)}">`
+    )
+    if (result.error) {
+      lines.push(`    <testcase classname="scenarios.${xml(id)}" name="run">`)
+      lines.push(`      <error message="${xml(result.error)}"/>`)
+      lines.push('    </testcase>')
+    }
+    for (const item of result.results) {
+      if (item.passed) {
+        lines.push(`    <testcase classname="scenarios.${xml(id)}" name="${xml(item.description)}"/>`)
+      } else {
+        lines.push(`    <testcase classname="scenarios.${xml(id)}" name="${xml(item.description)}">`)
+        lines.push(`      <failure message="${xml(item.detail)}"/>`)
+        lines.push('    </testcase>')
+      }
+    }
+    const alertLog = result.alerts.map((alert) => `t=${alert.time}s ${alert.subsystem} ${alert.level} ${alert.rul === null ? 'prediction unavailable' : `RUL=${alert.rul.toFixed(1)}`}`)
+    lines.push(`    <system-out>${xml(alertLog.join('\n'))}</system-out>`)
+    lines.push('  </testsuite>')
+  }
+
+  lines.push('</testsuites>')
+  return lines.join('\n') + '\n'
+}
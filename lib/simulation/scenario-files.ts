@@ -0,0 +1,55 @@
+import { readdir, readFile } from 'fs/promises'
+import path from 'path'
+import { ScenarioError, parseScenario, type Scenario, type ScenarioFormat } from './scenarios'
+
+// Server-side loader for the shared scenario files in scenarios/
+
+export const SCENARIO_DIR = 'scenarios'
+
+const FORMATS: Record<string, ScenarioFormat> = {
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+}
+
+export interface ScenarioFile {
+  // File name without extension, used to select the scenario
+  id: string
+  file: string
+  scenario: Scenario
+}
+
+export interface ScenarioFileError {
+  file: string
+  error: string
+}
+
+function scenarioDir(): string {
+  return path.join(process.cwd(), SCENARIO_DIR)
+}
+
+export async function readScenarioFile(file: string): Promise<ScenarioFile> {
+  const format = FORMATS[path.extname(file).toLowerCase()]
+  if (!format) {
+    throw new ScenarioError(`Unsupported scenario file type: ${file}`)
+  }
+  const text = await readFile(path.resolve(scenarioDir(), file), 'utf8')
+  return { id: path.basename(file, path.extname(file)), file, scenario: parseScenario(text, format) }
+}
+
+// Every scenario in the directory; a broken file is reported instead of hiding the rest
+export async function listScenarios(): Promise<{ scenarios: ScenarioFile[]; errors: ScenarioFileError[] }> {
+  const files = (await readdir(scenarioDir()).catch(() => [] as string[]))
+    .filter((file) => FORMATS[path.extname(file).toLowerCase()])
+    .sort()
+  const scenarios: ScenarioFile[] = []
+  const errors: ScenarioFileError[] = []
+  for (const file of files) {
+    try {
+      scenarios.push(await readScenarioFile(file))
+    } catch (error) {
+      errors.push({ file, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+  return { scenarios, errors }
+}
@@ -0,0 +1,128 @@
+import { parse as parseYaml } from 'yaml'
+import { z } from 'zod'
+import { ENGINE_FEATURES, SUBSYSTEMS, SUBSYSTEM_FEATURES } from '../prediction/subsystems'
+import { createSimulation, runSimulation, type SimulationState } from './engine'
+import { FAULT_KINDS, FAULT_RAMPS, type FaultSpec } from './faults'
+import { FLIGHT_PROFILES } from './profiles'
+import {
+  DEFAULT_ENGINE_SENSORS,
+  DEFAULT_SUBSYSTEM_SENSORS,
+  type EngineSensorData,
+  type SubsystemSensorData,
+} from './sensors'
+
+// Scripted simulation runs. A scenario file (JSON or YAML, in scenarios/)
+// pins down everything a run depends on - profile, seed, starting sensors and
+// faults - plus the alerts the run is expected to raise.
+
+export const DEFAULT_AIRCRAFT_ID = 'N747BA'
+
+export const SUBSYSTEM_SENSOR_NAMES = Object.values(SUBSYSTEM_FEATURES).flat() as [
+  keyof SubsystemSensorData,
+  ...(keyof SubsystemSensorData)[],
+]
+
+const reading = z.number().finite()
+const profileIds = FLIGHT_PROFILES.map((profile) => profile.id)
+
+export const scenarioFaultSchema = z.object({
+  kind: z.enum(FAULT_KINDS),
+  onset_s: z.number().nonnegative(),
+  ramp: z.enum(FAULT_RAMPS).default('step'),
+  ramp_s: z.number().nonnegative().default(0),
+  severity: z.number().gt(0).max(1),
+})
+
+// An alert of `level` or worse on `subsystem` (any subsystem when omitted)
+// must fire - or, with `fires: false`, must not fire - within [after_s, before_s]
+export const alertExpectationSchema = z
+  .object({
+    description: z.string().optional(),
+    subsystem: z.enum(SUBSYSTEMS).optional(),
+    level: z.enum(['warning', 'critical']),
+    fires: z.boolean().default(true),
+    after_s: z.number().nonnegative().optional(),
+    before_s: z.number().positive().optional(),
+  })
+  .refine((expectation) => (expectation.after_s ?? 0) <= (expectation.before_s ?? Infinity), {
+    message: 'after_s must not be later than before_s',
+  })
+
+export const scenarioSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  aircraft: z.string().min(1).default(DEFAULT_AIRCRAFT_ID),
+  profile: z.string().refine((id) => profileIds.includes(id), {
+    message: `expected one of ${profileIds.join(', ')}`,
+  }),
+  seed: z.number().int().nonnegative(),
+  initial: z
+    .object({
+      engine: z.record(z.enum(ENGINE_FEATURES), reading).default({}),
+      subsystems: z.record(z.enum(SUBSYSTEM_SENSOR_NAMES), reading).default({}),
+    })
+    .default({}),
+  faults: z.array(scenarioFaultSchema).default([]),
+  expect: z.array(alertExpectationSchema).default([]),
+})
+
+export type Scenario = z.infer<typeof scenarioSchema>
+export type AlertExpectation = z.infer<typeof alertExpectationSchema>
+
+export type ScenarioFormat = 'json' | 'yaml'
+
+// e.g. "hydraulic critical alert fires between 15s and 45s", "no critical alerts before 10s"
+export function describeExpectation(expectation: AlertExpectation): string {
+  const { subsystem, level, fires, after_s, before_s } = expectation
+  const window =
+    after_s !== undefined && before_s !== undefined ? ` between ${after_s}s and ${before_s}s`
+    : after_s !== undefined ? ` after ${after_s}s`
+    : before_s !== undefined ? ` before ${before_s}s`
+    : ''
+  const alert = `${subsystem ? `${subsystem} ` : ''}${level} alert`
+  return fires ? `${alert} fires${window}` : `no ${alert}s${window}`
+}
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScenarioError'
+  }
+}
+
+export function parseScenario(text: string, format: ScenarioFormat): Scenario {
+  let raw: unknown
+  try {
+    raw = format === 'json' ? JSON.parse(text) : parseYaml(text)
+  } catch (error) {
+    throw new ScenarioError(`Invalid ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  const parsed = scenarioSchema.safeParse(raw)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'scenario'}: ${issue.message}`)
+    throw new ScenarioError(issues.join('; '))
+  }
+  return parsed.data
+}
+
+// Faults need ids to be tracked in the panel and in the run record
+export function scenarioFaults(scenario: Scenario): FaultSpec[] {
+  return scenario.faults.map((fault, index) => ({ id: `${fault.kind}-${index + 1}`, ...fault }))
+}
+
+export function scenarioSensors(scenario: Scenario): { engine: EngineSensorData; subsystems: SubsystemSensorData } {
+  return {
+    engine: { ...DEFAULT_ENGINE_SENSORS, ...scenario.initial.engine },
+    subsystems: { ...DEFAULT_SUBSYSTEM_SENSORS, ...scenario.initial.subsystems },
+  }
+}
+
+export function createScenarioSimulation(scenario: Scenario): SimulationState {
+  const { engine, subsystems } = scenarioSensors(scenario)
+  return createSimulation(scenario.seed, engine, subsystems, scenario.profile, scenarioFaults(scenario))
+}
+
+// Every tick of the scenario's flight, without the UI
+export function runScenario(scenario: Scenario): SimulationState[] {
+  return runSimulation(createScenarioSimulation(scenario))
+}
@@ -0,0 +1,112 @@
+import { ENGINE_FEATURES } from '../prediction/subsystems'
+
+// Sensor readings the simulation drives and the prediction models consume
+
+// Engine sensors, same names as ENGINE_FEATURES (C-MAPSS column order)
+export interface EngineSensorData {
+  setting_1: number
+  setting_2: number
+  setting_3: number
+  fan_inlet_temperature: number
+  lpc_pressure_ratio: number
+  hpc_pressure_ratio: number
+  lpt_temperature: number
+  hpt_temperature: number
+  fuel_flow_rate: number
+  oil_pressure: number
+  vibration_level: number
+  exhaust_gas_temperature: number
+  shaft_speed: number
+  ambient_air_pressure: number
+  ambient_air_temperature: number
+  total_air_pressure: number
+  static_pressure_ratio: number
+  torque: number
+  acceleration: number
+  compressor_discharge_temperature: number
+  combustion_chamber_pressure: number
+  fuel_temperature: number
+  nozzle_pressure_ratio: number
+  oil_temperature: number
+}
+
+// New subsystem sensor data
+
+export interface SubsystemSensorData {
+  // Hydraulic System (3 sensors)
+  hydraulic_pressure: number
+  hydraulic_flow: number
+  hydraulic_temp: number
+  
+  // Electrical System (2 sensors)
+  electrical_voltage: number
+  electrical_current: number
+  
+  // Control Surface System (1 sensor)
+  control_surface_deflection: number
+  
+  // Cabin System (1 sensor)
+  cabin_pressure: number
+  
+  // Altimeter System (1 sensor)
+  altimeter_drift: number
+}
+
+export const DEFAULT_ENGINE_SENSORS: EngineSensorData = {
+  // Operational Settings - Realistic commercial aircraft values
+  setting_1: 0.0023,      // Altitude setting (normalized)
+  setting_2: 0.0003,      // Mach number setting (normalized)  
+  setting_3: 100.0,       // Throttle resolver angle (degrees)
+  
+  // Temperature Sensors - Realistic turbofan values (°R = °F + 459.67)
+  fan_inlet_temperature: 518.67,       // Fan inlet temp (~59°F)
+  lpc_pressure_ratio: 1.50,            // Low pressure compressor ratio (1.5-2.5 typical)
+  hpc_pressure_ratio: 15.85,           // High pressure compressor ratio (15-25 typical)
+  lpt_temperature: 1400.0,             // Low pressure turbine temp (~940°F)
+  hpt_temperature: 2400.0,             // High pressure turbine temp (~1940°F)
+  fuel_flow_rate: 2200.0,              // Fuel flow rate (lbs/hr)
+  oil_pressure: 55.0,                  // Oil pressure (psi)
+  vibration_level: 0.15,               // Vibration level (in/sec)
+  
+  // Pressure & Flow Sensors - Realistic values
+  exhaust_gas_temperature: 1800.0,     // Exhaust gas temp (°R = ~1340°F)
+  shaft_speed: 0.85,                   // Shaft speed (normalized, 85% of max)
+  ambient_air_pressure: 14.7,          // Ambient pressure (psi at sea level)
+  ambient_air_temperature: 518.67,     // Ambient temp (°R = ~59°F)
+  total_air_pressure: 16.2,            // Total pressure (psi)
+  static_pressure_ratio: 1.10,         // Static pressure ratio
+  torque: 850.0,                       // Engine torque (ft-lbs)
+  acceleration: 0.05,                  // Acceleration (g)
+  
+  // Mechanical Sensors - Realistic values
+  compressor_discharge_temperature: 700.0,  // CDT (°F)
+  combustion_chamber_pressure: 250.0,      // Combustor pressure (psi)
+  fuel_temperature: 75.0,                  // Fuel temperature (°F)
+  nozzle_pressure_ratio: 1.8,             // Nozzle pressure ratio
+  oil_temperature: 180.0,                 // Oil temperature (°F)
+}
+
+export const DEFAULT_SUBSYSTEM_SENSORS: SubsystemSensorData = {
+  // Hydraulic System - Realistic commercial aircraft values
+  hydraulic_pressure: 3000,     // psi - typical aircraft hydraulic pressure (3000 psi normal)
+  hydraulic_flow: 8.5,          // gpm - gallons per minute (8-12 gpm typical)
+  hydraulic_temp: 120,          // °F - hydraulic fluid temperature (100-140°F normal)
+  
+  // Electrical System - Realistic values
+  electrical_voltage: 28.5,     // V - typical aircraft DC voltage (28V system)
+  electrical_current: 15.0,     // A - amperes (10-20A normal operation)
+  
+  // Control Surface System - Realistic takeoff position
+  control_surface_deflection: 5, // degrees - slight deflection for takeoff trim
+  
+  // Cabin System - Realistic ground pressure
+  cabin_pressure: 14.7,         // psi - sea level pressure (14.7 psi)
+  
+  // Altimeter System - Minor drift
+  altimeter_drift: 2,           // feet - minor altimeter error (±5 ft normal)
+}
+
+// C-MAPSS rows are already in model column order
+export function engineDataFromFeatures(features: number[]): EngineSensorData {
+  return Object.fromEntries(ENGINE_FEATURES.map((key, i) => [key, features[i]])) as unknown as EngineSensorData
+}
@@ -0,0 +1,47 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import { SessionError, parseSession, summarizeSession, type Session, type SessionSummary } from './sessions'
+
+// Server-side store for recorded sessions: one JSON bundle per session in sessions/
+
+export const SESSION_DIR = 'sessions'
+
+// Largest bundle the server stores, a few hours of recorded flight
+export const MAX_SESSION_BYTES = 32 * 1024 * 1024
+
+function sessionDir(): string {
+  return path.join(process.cwd(), SESSION_DIR)
+}
+
+// Ids are validated by the session schema, but never trust one near the filesystem
+function sessionPath(id: string): string {
+  if (!/^[\w-]+$/.test(id)) {
+    throw new SessionError(`Invalid session id: ${id}`)
+  }
+  return path.join(sessionDir(), `${id}.json`)
+}
+
+export async function saveSession(session: Session): Promise<void> {
+  await mkdir(sessionDir(), { recursive: true })
+  await writeFile(sessionPath(session.id), JSON.stringify(session))
+}
+
+// undefined when no session has that id
+export async function readSession(id: string): Promise<Session | undefined> {
+  const text = await readFile(sessionPath(id), 'utf8').catch(() => undefined)
+  return text === undefined ? undefined : parseSession(text)
+}
+
+// Newest first; unreadable files are skipped rather than hiding the rest
+export async function listSessions(): Promise<SessionSummary[]> {
+  const files = (await readdir(sessionDir()).catch(() => [] as string[])).filter((file) => file.endsWith('.json'))
+  const summaries: SessionSummary[] = []
+  for (const file of files) {
+    try {
+      summaries.push(summarizeSession(parseSession(await readFile(path.join(sessionDir(), file), 'utf8'))))
+    } catch {
+      continue
+    }
+  }
+  return summaries.sort((a, b) => b.started_at.localeCompare(a.started_at))
+}
@@ -0,0 +1,229 @@
+import { z } from 'zod'
+import { ENGINE_FEATURES, SUBSYSTEMS } from '../prediction/subsystems'
+import { isAtLeast, type RiskLevel } from '../prediction/alerts'
+import { FLIGHT_PHASES, FLIGHT_PROFILES } from './profiles'
+import { SUBSYSTEM_SENSOR_NAMES, scenarioFaultSchema } from './scenarios'
+
+// Recorded simulation sessions. Every dashboard run is recorded second by
+// second - sensors, each prediction with its provenance, alert level changes
+// and what the operator did - then saved and exported as a JSON bundle that
+// reloads into read-only playback.
+
+export const SESSION_FORMAT_VERSION = 1
+
+const reading = z.number().finite()
+const profileIds = FLIGHT_PROFILES.map((profile) => profile.id)
+const riskLevel = z.enum(['safe', 'warning', 'danger'])
+const provenance = z.enum(['model', 'cached', 'fallback-heuristic', 'unavailable'])
+
+function sensorsSchema<K extends string>(keys: readonly K[]) {
+  return z.object(Object.fromEntries(keys.map((key) => [key, reading])) as Record<K, typeof reading>)
+}
+
+export const OPERATOR_ACTIONS = ['start', 'pause', 'resume', 'step', 'rewind', 'speed', 'manual-predict', 'stop'] as const
+export type OperatorAction = (typeof OPERATOR_ACTIONS)[number]
+
+// Everything needed to re-run the session from scratch
+export const sessionRunSchema = z.object({
+  seed: z.number().int().nonnegative(),
+  profile: z.string().refine((id) => profileIds.includes(id), {
+    message: `expected one of ${profileIds.join(', ')}`,
+  }),
+  faults: z.array(scenarioFaultSchema.extend({ id: z.string() })),
+  engine: sensorsSchema(ENGINE_FEATURES),
+  subsystems: sensorsSchema(SUBSYSTEM_SENSOR_NAMES),
+  aircraft: z.string(),
+  scenario: z.string().optional(),
+})
+
+const snapshotSchema = z.object({
+  time: z.number().int().nonnegative(),
+  phase: z.enum(FLIGHT_PHASES),
+  speed: reading,
+  altitude: reading,
+  engine: sensorsSchema(ENGINE_FEATURES),
+  subsystems: sensorsSchema(SUBSYSTEM_SENSOR_NAMES),
+})
+
+const predictionRecordSchema = z.object({
+  // Simulated second the prediction was requested for
+  time: z.number().int().nonnegative(),
+  subsystem: z.enum(SUBSYSTEMS),
+  rul: reading.nullable(),
+  risk_level: riskLevel,
+  status: z.string(),
+  provenance,
+  model_version: z.string().optional(),
+})
+
+const alertTransitionSchema = z.object({
+  time: z.number().int().nonnegative(),
+  from: riskLevel,
+  to: riskLevel,
+})
+
+const actionRecordSchema = z.object({
+  time: z.number().int().nonnegative(),
+  // Wall-clock time, so rewinds and pauses can be told apart
+  at: z.string(),
+  action: z.enum(OPERATOR_ACTIONS),
+  detail: z.string().optional(),
+})
+
+export const sessionSchema = z.object({
+  version: z.literal(SESSION_FORMAT_VERSION),
+  id: z.string().regex(/^[\w-]+$/, 'letters, digits, - and _ only'),
+  started_at: z.string(),
+  ended_at: z.string(),
+  // 'completed' when the profile or replayed data ran out, 'stopped' by the operator
+  end_reason: z.enum(['completed', 'stopped']),
+  run: sessionRunSchema,
+  snapshots: z.array(snapshotSchema),
+  predictions: z.array(predictionRecordSchema),
+  alerts: z.array(alertTransitionSchema),
+  actions: z.array(actionRecordSchema),
+})
+
+export type Session = z.infer<typeof sessionSchema>
+export type SessionRun = Session['run']
+export type SessionSnapshot = z.infer<typeof snapshotSchema>
+export type PredictionRecord = z.infer<typeof predictionRecordSchema>
+export type AlertTransition = z.infer<typeof alertTransitionSchema>
+export type ActionRecord = z.infer<typeof actionRecordSchema>
+
+export interface SessionSummary {
+  id: string
+  started_at: string
+  ended_at: string
+  end_reason: Session['end_reason']
+  aircraft: string
+  profile: string
+  seed: number
+  scenario?: string
+  duration_s: number
+  worst_alert: RiskLevel
+}
+
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SessionError'
+  }
+}
+
+export function validateSession(raw: unknown): Session {
+  const parsed = sessionSchema.safeParse(raw)
+  if (!parsed.success) {
+    const issues = parsed.error.issues.slice(0, 5).map((issue) => `${issue.path.join('.') || 'session'}: ${issue.message}`)
+    throw new SessionError(issues.join('; '))
+  }
+  return parsed.data
+}
+
+export function parseSession(text: string): Session {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch (error) {
+    throw new SessionError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  return validateSession(raw)
+}
+
+export function sessionDuration(session: Session): number {
+  return session.snapshots.length ? session.snapshots[session.snapshots.length - 1].time : 0
+}
+
+export function summarizeSession(session: Session): SessionSummary {
+  return {
+    id: session.id,
+    started_at: session.started_at,
+    ended_at: session.ended_at,
+    end_reason: session.end_reason,
+    aircraft: session.run.aircraft,
+    profile: session.run.profile,
+    seed: session.run.seed,
+    scenario: session.run.scenario,
+    duration_s: sessionDuration(session),
+    worst_alert: session.alerts.reduce<RiskLevel>((worst, alert) => (isAtLeast(alert.to, worst) ? alert.to : worst), 'safe'),
+  }
+}
+
+// e.g. N747BA-20260314T091502-seed42
+export function sessionId(run: SessionRun, startedAt: Date): string {
+  const stamp = startedAt.toISOString().replace(/[-:]/g, '').slice(0, 15)
+  return `${run.aircraft.replace(/[^\w-]/g, '_')}-${stamp}-seed${run.seed}`
+}
+
+export interface SessionRecorder {
+  readonly id: string
+  snapshot(snapshot: SessionSnapshot): void
+  prediction(record: PredictionRecord): void
+  alert(time: number, from: RiskLevel, to: RiskLevel): void
+  action(time: number, action: OperatorAction, detail?: string): void
+  // Drop recorded seconds after `time` when a rewound run carries on; the
+  // operator actions stay, they are what happened
+  truncate(time: number): void
+  finish(reason: Session['end_reason']): Session
+}
+
+export function createSessionRecorder(run: SessionRun, startedAt: Date = new Date()): SessionRecorder {
+  const id = sessionId(run, startedAt)
+  let snapshots: SessionSnapshot[] = []
+  let predictions: PredictionRecord[] = []
+  let alerts: AlertTransition[] = []
+  const actions: ActionRecord[] = []
+
+  return {
+    id,
+    snapshot(snapshot) {
+      snapshots.push(snapshot)
+    },
+    prediction(record) {
+      predictions.push(record)
+    },
+    alert(time, from, to) {
+      alerts.push({ time, from, to })
+    },
+    action(time, action, detail) {
+      actions.push({ time, at: new Date().toISOString(), action, ...(detail !== undefined && { detail }) })
+    },
+    truncate(time) {
+      snapshots = snapshots.filter((snapshot) => snapshot.time <= time)
+      predictions = predictions.filter((record) => record.time <= time)
+      alerts = alerts.filter((alert) => alert.time <= time)
+    },
+    finish(end_reason) {
+      return {
+        version: SESSION_FORMAT_VERSION,
+        id,
+        started_at: startedAt.toISOString(),
+        ended_at: new Date().toISOString(),
+        end_reason,
+        run,
+        snapshots: [...snapshots],
+        predictions: [...predictions],
+        alerts: [...alerts],
+        actions: [...actions],
+      }
+    },
+  }
+}
+
+export interface SessionFrame {
+  snapshot: SessionSnapshot | undefined
+  // Latest prediction for each subsystem at or before the second
+  predictions: Partial<Record<PredictionRecord['subsystem'], PredictionRecord>>
+  alertLevel: RiskLevel
+}
+
+// What the dashboard showed at a second of a recorded session
+export function sessionFrame(session: Session, time: number): SessionFrame {
+  const snapshot = session.snapshots.findLast((item) => item.time <= time)
+  const predictions: SessionFrame['predictions'] = {}
+  for (const record of session.predictions) {
+    if (record.time <= time) predictions[record.subsystem] = record
+  }
+  const alert = session.alerts.findLast((item) => item.time <= time)
+  return { snapshot, predictions, alertLevel: alert?.to ?? 'safe' }
+}
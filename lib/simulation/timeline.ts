@@ -0,0 +1,35 @@
+// Per-second recording of a run, so the dashboard can rewind to any earlier
+// second and show exactly what it showed then.
+
+export interface Timeline<T> {
+  // Store (or replace) the frame for a second
+  record(time: number, frame: T): void
+  at(time: number): T | undefined
+  // Drop every frame after `time`, e.g. when a rewound run carries on
+  truncate(time: number): void
+  // Frames from `from` to `to`, oldest first, skipping seconds never recorded
+  range(from: number, to: number): T[]
+  readonly end: number
+  clear(): void
+}
+
+export function createTimeline<T>(): Timeline<T> {
+  let frames: (T | undefined)[] = []
+
+  return {
+    record(time, frame) {
+      frames[time] = frame
+    },
+    at: (time) => frames[time],
+    truncate(time) {
+      frames = frames.slice(0, time + 1)
+    },
+    range: (from, to) => frames.slice(Math.max(0, from), to + 1).filter((frame): frame is T => frame !== undefined),
+    get end() {
+      return Math.max(0, frames.length - 1)
+    },
+    clear() {
+      frames = []
+    },
+  }
+}
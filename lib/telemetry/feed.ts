@@ -0,0 +1,127 @@
+import type { RiskLevel } from '../prediction/alerts'
+import { createRingBuffer } from '../prediction/history'
+import type { SubsystemName } from '../prediction/subsystems'
+import type { AlertTransition, PredictionRecord, SessionRun, SessionSnapshot } from '../simulation/sessions'
+
+// Server-side telemetry feed per aircraft. Whatever drives an aircraft (the
+// server simulation, ingested telemetry) publishes to its feed, and every
+// screen watching the aircraft receives the same events over SSE. Events carry
+// increasing ids so a reconnecting client resumes where it left off.
+
+// Events kept for resuming; about 10 minutes of a simulated flight
+const FEED_CAPACITY = 2000
+
+export interface AircraftStatus {
+  tail: string
+  running: boolean
+  // What drives the aircraft while running
+  source?: 'simulation' | 'ingest'
+  run?: SessionRun
+  started_at?: string
+  time: number
+}
+
+export type TelemetryEvent =
+  | { type: 'status'; data: AircraftStatus }
+  | { type: 'snapshot'; data: SessionSnapshot }
+  | { type: 'prediction'; data: PredictionRecord }
+  | { type: 'alert'; data: AlertTransition }
+
+export type StreamEvent = TelemetryEvent & { id: number }
+
+export interface AircraftFeed {
+  readonly tail: string
+  publish(event: TelemetryEvent): StreamEvent
+  // Sends what the client missed, then every new event, until unsubscribed.
+  // Without a usable Last-Event-ID the client gets the current state instead.
+  subscribe(listener: (event: StreamEvent) => void, lastEventId?: number): () => void
+  status(): AircraftStatus
+  alertLevel(): RiskLevel
+}
+
+export function isValidTail(tail: string): boolean {
+  return /^[A-Z0-9-]{1,10}$/i.test(tail)
+}
+
+export function createAircraftFeed(tail: string, capacity: number = FEED_CAPACITY): AircraftFeed {
+  const events = createRingBuffer<StreamEvent>(capacity)
+  const listeners = new Set<(event: StreamEvent) => void>()
+  let nextId = 1
+  // Latest state, for clients that connect mid-run or lost too much to resume
+  let status: AircraftStatus = { tail, running: false, time: 0 }
+  let snapshot: SessionSnapshot | undefined
+  let predictions: Partial<Record<SubsystemName, PredictionRecord>> = {}
+  let alertLevel: RiskLevel = 'safe'
+
+  const currentState = (): StreamEvent[] => {
+    const id = nextId - 1
+    return [
+      { id, type: 'status', data: status },
+      ...(snapshot ? [{ id, type: 'snapshot' as const, data: snapshot }] : []),
+      ...Object.values(predictions).map((data) => ({ id, type: 'prediction' as const, data })),
+      // from === to: the current level rather than a change
+      { id, type: 'alert', data: { time: status.time, from: alertLevel, to: alertLevel } },
+    ]
+  }
+
+  return {
+    tail,
+    publish(event) {
+      switch (event.type) {
+        case 'status':
+          status = event.data
+          // A new run starts from a clean slate
+          if (event.data.running && event.data.time === 0) {
+            snapshot = undefined
+            predictions = {}
+            alertLevel = 'safe'
+          }
+          break
+        case 'snapshot':
+          snapshot = event.data
+          status = { ...status, time: event.data.time }
+          break
+        case 'prediction':
+          predictions[event.data.subsystem] = event.data
+          break
+        case 'alert':
+          alertLevel = event.data.to
+          break
+      }
+      const published = { ...event, id: nextId++ } as StreamEvent
+      events.push(published)
+      listeners.forEach((listener) => listener(published))
+      return published
+    },
+    subscribe(listener, lastEventId) {
+      const buffered = events.toArray()
+      const oldest = buffered.length ? buffered[0].id : nextId
+      const resumable = lastEventId !== undefined && lastEventId >= oldest - 1 && lastEventId < nextId
+      const missed = resumable ? buffered.filter((event) => event.id > lastEventId) : currentState()
+      missed.forEach(listener)
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    status: () => status,
+    alertLevel: () => alertLevel,
+  }
+}
+
+const feeds = new Map<string, AircraftFeed>()
+
+export function getAircraftFeed(tail: string): AircraftFeed {
+  const key = tail.toUpperCase()
+  let feed = feeds.get(key)
+  if (!feed) {
+    feed = createAircraftFeed(key)
+    feeds.set(key, feed)
+  }
+  return feed
+}
+
+// One event in text/event-stream framing
+export function formatStreamEvent({ id, type, data }: StreamEvent): string {
+  return `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`
+}
@@ -0,0 +1,172 @@
+import { z } from 'zod'
+import { logger } from '../prediction/logger'
+import { ENGINE_FEATURES } from '../prediction/subsystems'
+import { FLIGHT_PHASES } from '../simulation/profiles'
+import { SUBSYSTEM_SENSOR_NAMES } from '../simulation/scenarios'
+import type { SessionSnapshot } from '../simulation/sessions'
+import { getAircraftFeed, type AircraftStatus } from './feed'
+import { createAircraftMonitor, type AircraftMonitor } from './monitor'
+import { AircraftBusyError } from './simulation'
+
+// Telemetry from outside the dashboard (data loggers, test harnesses, recorded
+// flights) for one aircraft. Readings are resampled to one sample per second
+// on the aircraft's clock and go through the same history, predictions and
+// stream as a server simulation.
+
+// An hour of 1 Hz data per request
+export const MAX_BATCH_READINGS = 3600
+
+// An ingest run ends by itself when its feed goes quiet for this long
+const INGEST_IDLE_TIMEOUT_MS = 60_000
+
+const reading = z.number().finite()
+
+// Every field is optional: a reading carries whatever the source measured,
+// and fields it leaves out keep their last reported value
+export const telemetryReadingSchema = z.object({
+  // ISO 8601 with an offset, or epoch milliseconds
+  timestamp: z.union([z.string().datetime({ offset: true }), z.number().int().nonnegative()]),
+  phase: z.enum(FLIGHT_PHASES).optional(),
+  speed: reading.optional(),
+  altitude: reading.optional(),
+  engine: z.record(z.enum(ENGINE_FEATURES), reading).default({}),
+  subsystems: z.record(z.enum(SUBSYSTEM_SENSOR_NAMES), reading).default({}),
+})
+
+export const telemetryBatchSchema = z.object({
+  readings: z.array(telemetryReadingSchema).min(1).max(MAX_BATCH_READINGS),
+})
+
+export type TelemetryReading = z.infer<typeof telemetryReadingSchema>
+
+export interface IngestResult {
+  accepted: number
+  // Batch positions of readings older than data the aircraft already has
+  stale: number[]
+  status: AircraftStatus
+}
+
+export class IngestError extends Error {
+  constructor(message: string, readonly missing: string[] = []) {
+    super(message)
+    this.name = 'IngestError'
+  }
+}
+
+type IngestState = Omit<SessionSnapshot, 'time'>
+
+interface IngestRun {
+  monitor: AircraftMonitor
+  // Epoch ms of second 0
+  startedAt: number
+  lastTimestamp: number
+  lastSecond: number
+  state: IngestState
+  idle: ReturnType<typeof setTimeout>
+}
+
+const runs = new Map<string, IngestRun>()
+
+function timestampOf(reading: TelemetryReading): number {
+  return typeof reading.timestamp === 'number' ? reading.timestamp : Date.parse(reading.timestamp)
+}
+
+function merge(state: Partial<IngestState>, reading: TelemetryReading): Partial<IngestState> {
+  return {
+    phase: reading.phase ?? state.phase,
+    speed: reading.speed ?? state.speed,
+    altitude: reading.altitude ?? state.altitude,
+    engine: { ...state.engine, ...reading.engine } as IngestState['engine'],
+    subsystems: { ...state.subsystems, ...reading.subsystems } as IngestState['subsystems'],
+  }
+}
+
+// Fields no reading has reported yet
+function missingFields(state: Partial<IngestState>): string[] {
+  return [
+    ...(['phase', 'speed', 'altitude'] as const).filter((key) => state[key] === undefined),
+    ...ENGINE_FEATURES.filter((key) => state.engine?.[key] === undefined).map((key) => `engine.${key}`),
+    ...SUBSYSTEM_SENSOR_NAMES.filter((key) => state.subsystems?.[key] === undefined).map((key) => `subsystems.${key}`),
+  ]
+}
+
+// Append a batch to the aircraft's telemetry. The batch is put in timestamp
+// order first; readings older than the newest one already ingested are
+// skipped. The first batch of a run must report every field at least once.
+export function ingestTelemetry(tail: string, readings: TelemetryReading[]): IngestResult {
+  const feed = getAircraftFeed(tail)
+  let run = runs.get(feed.tail)
+  if (!run && feed.status().running) {
+    throw new AircraftBusyError(feed.tail)
+  }
+
+  const ordered = readings
+    .map((reading, index) => ({ reading, index, timestamp: timestampOf(reading) }))
+    .sort((a, b) => a.timestamp - b.timestamp)
+  const stale: number[] = []
+  let pending: Partial<IngestState> = {}
+  let accepted = 0
+
+  for (const { reading, index, timestamp } of ordered) {
+    if (run && timestamp < run.lastTimestamp) {
+      stale.push(index)
+      continue
+    }
+    accepted++
+    if (!run) {
+      pending = merge(pending, reading)
+      if (missingFields(pending).length) continue
+      run = startIngest(feed.tail, timestamp, pending as IngestState)
+    } else {
+      run.state = merge(run.state, reading) as IngestState
+    }
+    run.lastTimestamp = timestamp
+    // One sample per second; later readings in the same second show up in the next one
+    const second = Math.floor((timestamp - run.startedAt) / 1000)
+    if (second > run.lastSecond) {
+      run.lastSecond = second
+      run.monitor.sample({ time: second, ...run.state })
+    }
+  }
+
+  if (!run) {
+    const missing = missingFields(pending)
+    throw new IngestError(`The first batch for ${feed.tail} must report every sensor at least once`, missing)
+  }
+  clearTimeout(run.idle)
+  run.idle = setTimeout(() => endIngest(feed.tail), INGEST_IDLE_TIMEOUT_MS)
+  return { accepted, stale: stale.sort((a, b) => a - b), status: feed.status() }
+}
+
+function startIngest(tail: string, startedAt: number, state: IngestState): IngestRun {
+  const feed = getAircraftFeed(tail)
+  const log = logger.child({ tail: feed.tail })
+  const run: IngestRun = {
+    monitor: createAircraftMonitor(feed, {}, log),
+    startedAt,
+    lastTimestamp: startedAt,
+    lastSecond: -1,
+    state,
+    idle: setTimeout(() => endIngest(feed.tail), INGEST_IDLE_TIMEOUT_MS),
+  }
+  runs.set(feed.tail, run)
+  feed.publish({
+    type: 'status',
+    data: { tail: feed.tail, running: true, source: 'ingest', started_at: new Date(startedAt).toISOString(), time: 0 },
+  })
+  log.info('telemetry ingest started')
+  return run
+}
+
+// The final status, or undefined when the aircraft was not ingesting
+export function endIngest(tail: string): AircraftStatus | undefined {
+  const feed = getAircraftFeed(tail)
+  const run = runs.get(feed.tail)
+  if (!run) return undefined
+  clearTimeout(run.idle)
+  runs.delete(feed.tail)
+  const { started_at, time } = feed.status()
+  feed.publish({ type: 'status', data: { tail: feed.tail, running: false, source: 'ingest', started_at, time } })
+  logger.info('telemetry ingest ended', { tail: feed.tail, time })
+  return feed.status()
+}
@@ -0,0 +1,88 @@
+import { alertLevelFor, isAtLeast, type RiskLevel } from '../prediction/alerts'
+import { createSensorHistory } from '../prediction/history'
+import { logger, type Logger } from '../prediction/logger'
+import { runBatch, type BatchItem } from '../prediction/predict'
+import { displayedPrediction } from '../prediction/provenance'
+import type { SessionRouting } from '../prediction/session'
+import { ENGINE_FEATURES, SEQUENCE_SUBSYSTEMS, isSubsystemName } from '../prediction/subsystems'
+import { PREDICTION_INTERVAL_S } from '../simulation/runner'
+import type { PredictionRecord, SessionSnapshot } from '../simulation/sessions'
+import type { AircraftFeed } from './feed'
+
+// Server-side monitoring of one aircraft: each second of sensor data goes into
+// the rolling history and out on the feed, and every few seconds the models
+// are asked for RUL. Results are turned into predictions and alert levels by
+// the same code the dashboard uses in the browser.
+
+export interface AircraftMonitor {
+  // Publish one second of sensor data; predicts each time the run enters a new
+  // PREDICTION_INTERVAL_S window, so a feed that skips seconds still gets predictions
+  sample(snapshot: SessionSnapshot): void
+  reset(): void
+}
+
+export function createAircraftMonitor(
+  feed: AircraftFeed,
+  routing: SessionRouting = {},
+  log: Logger = logger.child({ tail: feed.tail })
+): AircraftMonitor {
+  const history = createSensorHistory()
+  let predictedWindow = 0
+
+  const predict = async (snapshot: SessionSnapshot) => {
+    const items: BatchItem[] = [{ subsystem: 'engine', sequence: ENGINE_FEATURES.map((key) => snapshot.engine[key]) }]
+    for (const subsystem of SEQUENCE_SUBSYSTEMS) {
+      const window = history.window(subsystem, 'repeat-first')
+      if (window) items.push({ subsystem, sequence: window })
+    }
+    const batch = await runBatch(items, routing, log)
+
+    let level: RiskLevel = 'safe'
+    for (const result of batch.results) {
+      if (!isSubsystemName(result.subsystem)) continue
+      const output = displayedPrediction(result)
+      const record: PredictionRecord =
+        output
+          ? {
+              time: snapshot.time,
+              subsystem: result.subsystem,
+              ...output,
+              status: output.provenance === 'cached' ? 'Served from cache' : 'Model output',
+              model_version: result.model_version,
+            }
+          : {
+              time: snapshot.time,
+              subsystem: result.subsystem,
+              rul: null,
+              risk_level: 'warning',
+              status: result.error ?? 'Model unavailable',
+              provenance: 'unavailable',
+            }
+      feed.publish({ type: 'prediction', data: record })
+      // Unavailable is a caution, but never critical on no data
+      const itemLevel = record.rul === null ? 'warning' : alertLevelFor(record.rul)
+      if (!isAtLeast(level, itemLevel)) level = itemLevel
+    }
+
+    const previous = feed.alertLevel()
+    if (level !== previous) {
+      feed.publish({ type: 'alert', data: { time: snapshot.time, from: previous, to: level } })
+    }
+  }
+
+  return {
+    sample(snapshot) {
+      history.record(snapshot.subsystems)
+      feed.publish({ type: 'snapshot', data: snapshot })
+      const window = Math.floor(snapshot.time / PREDICTION_INTERVAL_S)
+      if (window > predictedWindow) {
+        predictedWindow = window
+        predict(snapshot).catch((error) => log.error('prediction tick failed', { time: snapshot.time, error }))
+      }
+    },
+    reset() {
+      history.reset()
+      predictedWindow = 0
+    },
+  }
+}
@@ -0,0 +1,316 @@
+import mqtt from 'mqtt'
+import { z } from 'zod'
+import { logger as rootLogger, type Logger } from '../prediction/logger'
+import { ENGINE_FEATURES, type EngineFeatureName } from '../prediction/subsystems'
+import { FLIGHT_PHASES, type FlightPhase } from '../simulation/profiles'
+import { SUBSYSTEM_SENSOR_NAMES } from '../simulation/scenarios'
+import type { SubsystemSensorData } from '../simulation/sensors'
+import { MAX_BATCH_READINGS, type TelemetryReading } from './ingest'
+
+// MQTT adapter: avionics test benches publish one sensor per topic, e.g.
+// aircraft/N747BA/hydraulic/pressure. The bridge maps topics to telemetry
+// fields, puts messages back in order per aircraft and second, and hands the
+// assembled readings to the ingest API, so they reach the same history and
+// predictions as any other feed.
+
+export type TelemetryField =
+  | 'phase'
+  | 'speed'
+  | 'altitude'
+  | `engine.${EngineFeatureName}`
+  | `subsystems.${keyof SubsystemSensorData}`
+
+export const TELEMETRY_FIELDS = [
+  'phase',
+  'speed',
+  'altitude',
+  ...ENGINE_FEATURES.map((key) => `engine.${key}` as const),
+  ...SUBSYSTEM_SENSOR_NAMES.map((key) => `subsystems.${key}` as const),
+] as [TelemetryField, ...TelemetryField[]]
+
+// Topic pattern -> field; {tail} stands for the aircraft's tail number
+export type TopicMap = Record<string, TelemetryField>
+
+export const topicMapSchema = z.record(
+  z.string().refine((pattern) => pattern.includes('{tail}'), { message: 'topic pattern must contain {tail}' }),
+  z.enum(TELEMETRY_FIELDS)
+)
+
+const SUBSYSTEM_TOPICS: Record<keyof SubsystemSensorData, string> = {
+  hydraulic_pressure: 'hydraulic/pressure',
+  hydraulic_flow: 'hydraulic/flow',
+  hydraulic_temp: 'hydraulic/temperature',
+  electrical_voltage: 'electrical/voltage',
+  electrical_current: 'electrical/current',
+  control_surface_deflection: 'control_surface/deflection',
+  cabin_pressure: 'cabin/pressure',
+  altimeter_drift: 'altimeter/drift',
+}
+
+export const DEFAULT_TOPIC_MAP: TopicMap = {
+  'aircraft/{tail}/flight/phase': 'phase',
+  'aircraft/{tail}/flight/speed': 'speed',
+  'aircraft/{tail}/flight/altitude': 'altitude',
+  ...Object.fromEntries(ENGINE_FEATURES.map((key) => [`aircraft/{tail}/engine/${key}`, `engine.${key}`])),
+  ...Object.fromEntries(
+    SUBSYSTEM_SENSOR_NAMES.map((key) => [`aircraft/{tail}/${SUBSYSTEM_TOPICS[key]}`, `subsystems.${key}`])
+  ),
+}
+
+// Messages for one second are held this long for stragglers before the
+// second is sent; anything arriving after that is counted as late
+export const DEFAULT_REORDER_WINDOW_MS = 2000
+
+export interface TopicMatch {
+  tail: string
+  field: TelemetryField
+}
+
+export function createTopicMatcher(topics: TopicMap): (topic: string) => TopicMatch | undefined {
+  const patterns = Object.entries(topics).map(([pattern, field]) => {
+    const source = pattern
+      .split('{tail}')
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('([A-Za-z0-9-]{1,10})')
+    return { regex: new RegExp(`^${source}$`), field }
+  })
+  return (topic) => {
+    for (const { regex, field } of patterns) {
+      const match = regex.exec(topic)
+      if (match) return { tail: match[1].toUpperCase(), field }
+    }
+    return undefined
+  }
+}
+
+// MQTT subscriptions for a topic map: {tail} becomes the single-level wildcard
+export function subscriptionsFor(topics: TopicMap): string[] {
+  return [...new Set(Object.keys(topics).map((pattern) => pattern.replaceAll('{tail}', '+')))]
+}
+
+export interface FieldValue {
+  value: number | FlightPhase
+  // Epoch ms; messages without one are stamped when received
+  timestamp: number
+}
+
+// Payloads are a bare value ("2985.5", "cruise") or JSON
+// { "value": 2985.5, "timestamp": "2026-01-01T12:00:00Z" | 1767268800000 }
+export function parsePayload(field: TelemetryField, payload: string, receivedAt: number): FieldValue | undefined {
+  let raw: unknown = payload.trim()
+  try {
+    raw = JSON.parse(payload)
+  } catch {
+    // A bare phase name isn't JSON
+  }
+  let value = raw
+  let timestamp = receivedAt
+  if (raw !== null && typeof raw === 'object' && 'value' in raw) {
+    value = raw.value
+    const stamp = 'timestamp' in raw ? raw.timestamp : undefined
+    const parsed = typeof stamp === 'number' ? stamp : typeof stamp === 'string' ? Date.parse(stamp) : receivedAt
+    if (!Number.isFinite(parsed)) return undefined
+    timestamp = parsed
+  }
+  if (field === 'phase') {
+    const phase = FLIGHT_PHASES.find((name) => name === value)
+    return phase ? { value: phase, timestamp } : undefined
+  }
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  return typeof number === 'number' && Number.isFinite(number) ? { value: number, timestamp } : undefined
+}
+
+function setField(reading: TelemetryReading, field: TelemetryField, value: number | FlightPhase) {
+  if (field === 'phase') reading.phase = value as FlightPhase
+  else if (field === 'speed' || field === 'altitude') reading[field] = value as number
+  else if (field.startsWith('engine.')) reading.engine[field.slice(7) as EngineFeatureName] = value as number
+  else reading.subsystems[field.slice(11) as keyof SubsystemSensorData] = value as number
+}
+
+interface Frame {
+  reading: TelemetryReading
+  // Timestamp of the message each field's value came from
+  stamps: Map<TelemetryField, number>
+  firstReceived: number
+}
+
+export interface TelemetryAssembler {
+  // False when the message's second was already sent
+  add(tail: string, field: TelemetryField, value: FieldValue, receivedAt?: number): boolean
+  // Readings whose reorder window has passed (or all of them), oldest first
+  drain(now?: number, all?: boolean): Map<string, TelemetryReading[]>
+}
+
+// Groups messages into one reading per aircraft and second. A second is sent
+// once its first message is reorderWindowMs old, together with any older
+// second still open, so readings always leave in timestamp order. Fields
+// that had no message in a second are left out and keep their last value.
+export function createTelemetryAssembler(reorderWindowMs: number = DEFAULT_REORDER_WINDOW_MS): TelemetryAssembler {
+  const frames = new Map<string, Map<number, Frame>>()
+  const sentUpTo = new Map<string, number>()
+
+  return {
+    add(tail, field, { value, timestamp }, receivedAt = Date.now()) {
+      const second = Math.floor(timestamp / 1000)
+      if (second <= (sentUpTo.get(tail) ?? -Infinity)) return false
+      let byTail = frames.get(tail)
+      if (!byTail) {
+        byTail = new Map()
+        frames.set(tail, byTail)
+      }
+      let frame = byTail.get(second)
+      if (!frame) {
+        frame = { reading: { timestamp: second * 1000, engine: {}, subsystems: {} }, stamps: new Map(), firstReceived: receivedAt }
+        byTail.set(second, frame)
+      }
+      // Out of order within the second: the newest measurement wins
+      if ((frame.stamps.get(field) ?? -Infinity) <= timestamp) {
+        frame.stamps.set(field, timestamp)
+        setField(frame.reading, field, value)
+      }
+      return true
+    },
+    drain(now = Date.now(), all = false) {
+      const drained = new Map<string, TelemetryReading[]>()
+      for (const [tail, byTail] of frames) {
+        let upTo = -Infinity
+        for (const [second, frame] of byTail) {
+          if (all || now - frame.firstReceived >= reorderWindowMs) upTo = Math.max(upTo, second)
+        }
+        if (upTo === -Infinity) continue
+        const seconds = [...byTail.keys()].filter((second) => second <= upTo).sort((a, b) => a - b)
+        drained.set(tail, seconds.map((second) => byTail.get(second)!.reading))
+        seconds.forEach((second) => byTail.delete(second))
+        sentUpTo.set(tail, upTo)
+        if (!byTail.size) frames.delete(tail)
+      }
+      return drained
+    },
+  }
+}
+
+// What the ingest API made of a batch
+export type IngestOutcome =
+  | { kind: 'accepted'; stale: number }
+  // The aircraft's first readings don't cover every field yet
+  | { kind: 'incomplete'; missing: string[] }
+  | { kind: 'rejected'; error: string }
+
+export type IngestSender = (tail: string, readings: TelemetryReading[]) => Promise<IngestOutcome>
+
+// Posts batches to a running dashboard's POST /api/telemetry/[tail]
+export function createHttpIngestSender(dashboardUrl: string): IngestSender {
+  const base = dashboardUrl.replace(/\/+$/, '')
+  return async (tail, readings) => {
+    const response = await fetch(`${base}/api/telemetry/${encodeURIComponent(tail)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ readings }),
+    })
+    const data = await response.json().catch(() => ({}))
+    if (response.ok) return { kind: 'accepted', stale: data.stale?.length ?? 0 }
+    if (response.status === 422 && Array.isArray(data.missing)) return { kind: 'incomplete', missing: data.missing }
+    return { kind: 'rejected', error: data.error || `HTTP ${response.status}` }
+  }
+}
+
+export interface MqttBridgeOptions {
+  url: string
+  send: IngestSender
+  topics?: TopicMap
+  reorderWindowMs?: number
+  log?: Logger
+}
+
+export interface MqttBridgeStats {
+  messages: number
+  // No mapping for the topic, or a payload that isn't a value for its field
+  ignored: number
+  // Arrived after their second was sent
+  late: number
+  readings: number
+  // Skipped by the ingest API as older than what it already had
+  stale: number
+  rejected: number
+}
+
+export interface MqttBridge {
+  stats(): MqttBridgeStats
+  // Sends what is still buffered, then disconnects
+  stop(): Promise<void>
+}
+
+export async function startMqttBridge({
+  url,
+  send,
+  topics = DEFAULT_TOPIC_MAP,
+  reorderWindowMs = DEFAULT_REORDER_WINDOW_MS,
+  log = rootLogger.child({ component: 'mqtt' }),
+}: MqttBridgeOptions): Promise<MqttBridge> {
+  const match = createTopicMatcher(topics)
+  const assembler = createTelemetryAssembler(reorderWindowMs)
+  const stats: MqttBridgeStats = { messages: 0, ignored: 0, late: 0, readings: 0, stale: 0, rejected: 0 }
+  // Readings held back until an aircraft has reported every field once
+  const pending = new Map<string, TelemetryReading[]>()
+  let flushing = Promise.resolve()
+
+  const sendTail = async (tail: string, readings: TelemetryReading[]) => {
+    const batch = [...(pending.get(tail) ?? []), ...readings]
+    pending.delete(tail)
+    for (let start = 0; start < batch.length; start += MAX_BATCH_READINGS) {
+      const chunk = batch.slice(start, start + MAX_BATCH_READINGS)
+      const outcome = await send(tail, chunk).catch(
+        (error): IngestOutcome => ({ kind: 'rejected', error: error instanceof Error ? error.message : String(error) })
+      )
+      if (outcome.kind === 'accepted') {
+        stats.readings += chunk.length - outcome.stale
+        stats.stale += outcome.stale
+      } else if (outcome.kind === 'incomplete') {
+        pending.set(tail, chunk.slice(-MAX_BATCH_READINGS))
+        log.debug('waiting for every field before ingesting', { tail, missing: outcome.missing.length })
+      } else {
+        stats.rejected += chunk.length
+        log.warn('telemetry batch rejected', { tail, readings: chunk.length, error: outcome.error })
+      }
+    }
+  }
+
+  const flush = (all = false) => {
+    flushing = flushing.then(async () => {
+      for (const [tail, readings] of assembler.drain(Date.now(), all)) {
+        await sendTail(tail, readings)
+      }
+    })
+    return flushing
+  }
+
+  const client = await mqtt.connectAsync(url)
+  client.on('message', (topic, payload) => {
+    stats.messages++
+    const receivedAt = Date.now()
+    const target = match(topic)
+    const value = target && parsePayload(target.field, payload.toString(), receivedAt)
+    if (!target || !value) {
+      stats.ignored++
+      return
+    }
+    if (!assembler.add(target.tail, target.field, value, receivedAt)) stats.late++
+  })
+  client.on('error', (error) => log.error('mqtt client error', { error }))
+  client.on('reconnect', () => log.warn('reconnecting to mqtt broker', { url }))
+
+  const subscriptions = subscriptionsFor(topics)
+  await client.subscribeAsync(subscriptions)
+  log.info('mqtt bridge subscribed', { url, topics: subscriptions.length })
+
+  const timer = setInterval(() => flush(), Math.max(100, reorderWindowMs / 4))
+
+  return {
+    stats: () => ({ ...stats }),
+    async stop() {
+      clearInterval(timer)
+      await client.endAsync()
+      await flush(true)
+    },
+  }
+}
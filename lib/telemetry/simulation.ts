@@ -0,0 +1,71 @@
+import { logger } from '../prediction/logger'
+import { createSimulation, simulationDuration, stepSimulation, type SimulationState } from '../simulation/engine'
+import type { SessionRun } from '../simulation/sessions'
+import { getAircraftFeed, type AircraftStatus } from './feed'
+import { createAircraftMonitor } from './monitor'
+
+// Flight simulations run by the server in real time, one per aircraft, so any
+// number of dashboards can watch the same flight over the telemetry stream.
+
+export class AircraftBusyError extends Error {
+  constructor(tail: string) {
+    super(`Aircraft ${tail} is already running`)
+    this.name = 'AircraftBusyError'
+  }
+}
+
+interface ServerSimulation {
+  state: SimulationState
+  timer: ReturnType<typeof setInterval>
+}
+
+const simulations = new Map<string, ServerSimulation>()
+
+function snapshotOf(state: SimulationState) {
+  const { time, phase, speed, altitude, engine, subsystems } = state
+  return { time, phase, speed, altitude, engine, subsystems }
+}
+
+export function startServerSimulation(tail: string, run: SessionRun): AircraftStatus {
+  const feed = getAircraftFeed(tail)
+  if (feed.status().running) {
+    throw new AircraftBusyError(feed.tail)
+  }
+  const log = logger.child({ tail: feed.tail })
+  const monitor = createAircraftMonitor(feed, {}, log)
+  const started_at = new Date().toISOString()
+  const state = createSimulation(run.seed, run.engine, run.subsystems, run.profile, run.faults)
+
+  feed.publish({ type: 'status', data: { tail: feed.tail, running: true, source: 'simulation', run, started_at, time: 0 } })
+  monitor.sample(snapshotOf(state))
+
+  const timer = setInterval(() => {
+    const simulation = simulations.get(feed.tail)
+    if (!simulation) return
+    if (simulation.state.time >= simulationDuration(simulation.state)) {
+      stopServerSimulation(feed.tail)
+      return
+    }
+    simulation.state = stepSimulation(simulation.state)
+    monitor.sample(snapshotOf(simulation.state))
+  }, 1000)
+  simulations.set(feed.tail, { state, timer })
+  log.info('server simulation started', { seed: run.seed, profile: run.profile, faults: run.faults.length })
+  return feed.status()
+}
+
+// The final status, or undefined when the aircraft had no simulation running
+export function stopServerSimulation(tail: string): AircraftStatus | undefined {
+  const feed = getAircraftFeed(tail)
+  const simulation = simulations.get(feed.tail)
+  if (!simulation) return undefined
+  clearInterval(simulation.timer)
+  simulations.delete(feed.tail)
+  const { run, started_at } = feed.status()
+  feed.publish({
+    type: 'status',
+    data: { tail: feed.tail, running: false, source: 'simulation', run, started_at, time: simulation.state.time },
+  })
+  logger.info('server simulation stopped', { tail: feed.tail, time: simulation.state.time })
+  return feed.status()
+}
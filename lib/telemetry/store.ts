@@ -0,0 +1,110 @@
+import type { RiskLevel } from '../prediction/alerts'
+import type { PredictionProvenance } from '../prediction/provenance'
+import type { SubsystemTruth } from '../prediction/replay'
+import type { SequenceSubsystemName } from '../prediction/subsystems'
+import type { FlightPhase } from '../simulation/profiles'
+import {
+  DEFAULT_ENGINE_SENSORS,
+  DEFAULT_SUBSYSTEM_SENSORS,
+  type EngineSensorData,
+  type SubsystemSensorData,
+} from '../simulation/sensors'
+
+// Dashboard telemetry: the one place the prediction panel publishes sensors,
+// predictions, alert level and simulation state, and every other component
+// reads them from. Components that mount late see the current state straight
+// away instead of waiting for the next update.
+
+export interface EnginePrediction {
+  prediction: number
+  probability?: number[]
+  feature_importance?: Record<string, number>
+  risk_level?: string
+  provenance: PredictionProvenance
+  model_version?: string
+}
+
+export interface SubsystemPrediction {
+  subsystem: SequenceSubsystemName
+  // null when no value is available - never substitute a made-up number
+  rul: number | null
+  risk_level: RiskLevel
+  status: string
+  failure_probability?: number
+  // Simulated second the prediction was made for
+  cycle?: number
+  timestamp?: number
+  provenance: PredictionProvenance
+  model_version?: string
+  // Labels from the synthetic dataset row the prediction was made on
+  truth?: SubsystemTruth
+  // The batch item the prediction came from, for debugging
+  sensor_data?: Record<string, unknown>
+}
+
+export interface SimulationStatus {
+  // True during a live run and while a recorded session plays back
+  isSimulating: boolean
+  isPaused: boolean
+  time: number
+  speed: number
+  altitude: number
+  phase: FlightPhase | null
+  profileName: string
+  aircraftId: string
+  scenario?: string
+}
+
+export interface TelemetryState {
+  simulation: SimulationStatus
+  sensors: { engine: EngineSensorData; subsystems: SubsystemSensorData }
+  predictions: { engine: EnginePrediction | null; subsystems: SubsystemPrediction[] }
+  alertLevel: RiskLevel
+}
+
+// Slices given in an update replace the ones in the state; the rest are kept
+export type TelemetryUpdate = Partial<TelemetryState>
+
+export interface TelemetryStore {
+  getState(): TelemetryState
+  update(update: TelemetryUpdate): void
+  // Called after every update; returns the unsubscribe function
+  subscribe(listener: () => void): () => void
+}
+
+export function initialTelemetry(aircraftId: string, profileName: string = ''): TelemetryState {
+  return {
+    simulation: {
+      isSimulating: false,
+      isPaused: false,
+      time: 0,
+      speed: 0,
+      altitude: 0,
+      phase: null,
+      profileName,
+      aircraftId,
+    },
+    sensors: { engine: DEFAULT_ENGINE_SENSORS, subsystems: DEFAULT_SUBSYSTEM_SENSORS },
+    predictions: { engine: null, subsystems: [] },
+    alertLevel: 'safe',
+  }
+}
+
+export function createTelemetryStore(initial: TelemetryState): TelemetryStore {
+  let state = initial
+  const listeners = new Set<() => void>()
+
+  return {
+    getState: () => state,
+    update(update) {
+      state = { ...state, ...update }
+      listeners.forEach((listener) => listener())
+    },
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
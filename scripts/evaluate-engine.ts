@@ -0,0 +1,92 @@
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { parseArgs } from 'util'
+import { evaluateEngine, toCsv } from '../lib/prediction/evaluation'
+import { normalizeBaseUrl, type SessionRouting } from '../lib/prediction/session'
+
+// Score the engine model against the C-MAPSS test set.
+//
+//   npm run evaluate -- [--json report.json] [--csv units.csv]
+//                       [--api-base https://...] [--auth "Bearer ..."]
+//                       [--concurrency 4] [--max-rmse 40] [--max-mae 30] [--max-score 5000]
+//
+// The backend is chosen the same way as in the server (PREDICTION_BACKEND,
+// LSTM_API_BASE, ...) unless --api-base is given. Exits 1 when a --max-*
+// threshold is exceeded or a unit could not be predicted, so it can gate CI.
+
+const { values } = parseArgs({
+  options: {
+    json: { type: 'string' },
+    csv: { type: 'string' },
+    'api-base': { type: 'string' },
+    auth: { type: 'string' },
+    concurrency: { type: 'string' },
+    'max-rmse': { type: 'string' },
+    'max-mae': { type: 'string' },
+    'max-score': { type: 'string' },
+  },
+})
+
+async function write(file: string, contents: string) {
+  await mkdir(path.dirname(path.resolve(file)), { recursive: true })
+  await writeFile(file, contents)
+  console.log(`Wrote ${file}`)
+}
+
+// Same checks and normalisation as a dashboard session's base URL, minus the
+// allowlist: whoever runs the script picks the server
+function routingFromArgs(): SessionRouting {
+  const apiBase = values['api-base']
+  if (!apiBase) return {}
+  let url: URL
+  try {
+    url = new URL(apiBase.trim())
+  } catch {
+    throw new Error(`Invalid --api-base URL: ${apiBase}`)
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('--api-base must use http or https')
+  }
+  return { baseUrl: normalizeBaseUrl(url), authorization: values.auth }
+}
+
+async function main() {
+  const report = await evaluateEngine({
+    routing: routingFromArgs(),
+    concurrency: values.concurrency ? Number(values.concurrency) : undefined,
+  })
+  const { summary } = report
+
+  console.log(`Backend:  ${report.backend} (${report.model_version ?? 'unknown version'})`)
+  console.log(`Units:    ${summary.evaluated}/${summary.units} evaluated in ${report.duration_ms} ms`)
+  if (summary.missing_units.length) {
+    console.log(`Missing:  ${summary.missing_units.length} unit(s) in PM_truth.txt have no test rows`)
+  }
+  console.log(`RMSE:     ${summary.rmse.toFixed(2)}`)
+  console.log(`MAE:      ${summary.mae.toFixed(2)}`)
+  console.log(`Score:    ${summary.score.toFixed(1)} (NASA, lower is better)`)
+
+  if (values.json) await write(values.json, JSON.stringify(report, null, 2) + '\n')
+  if (values.csv) await write(values.csv, toCsv(report.units))
+
+  const failures: string[] = []
+  if (summary.failed > 0) failures.push(`${summary.failed} unit(s) could not be predicted`)
+  const limits = [
+    ['RMSE', summary.rmse, values['max-rmse']],
+    ['MAE', summary.mae, values['max-mae']],
+    ['Score', summary.score, values['max-score']],
+  ] as const
+  for (const [name, actual, max] of limits) {
+    if (max !== undefined && !(actual <= Number(max))) {
+      failures.push(`${name} ${actual.toFixed(2)} exceeds ${max}`)
+    }
+  }
+
+  for (const failure of failures) console.error(`FAIL: ${failure}`)
+  process.exitCode = failures.length ? 1 : 0
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})
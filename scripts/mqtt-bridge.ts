@@ -0,0 +1,119 @@
+import { readFile } from 'fs/promises'
+import { createServer } from 'net'
+import { parseArgs } from 'util'
+import mqtt from 'mqtt'
+import { ENGINE_FEATURES } from '../lib/prediction/subsystems'
+import { createSimulation, simulationDuration, stepSimulation } from '../lib/simulation/engine'
+import { DEFAULT_PROFILE_ID } from '../lib/simulation/profiles'
+import { SUBSYSTEM_SENSOR_NAMES } from '../lib/simulation/scenarios'
+import { DEFAULT_ENGINE_SENSORS, DEFAULT_SUBSYSTEM_SENSORS } from '../lib/simulation/sensors'
+import {
+  DEFAULT_REORDER_WINDOW_MS,
+  DEFAULT_TOPIC_MAP,
+  createHttpIngestSender,
+  startMqttBridge,
+  topicMapSchema,
+  type TelemetryField,
+  type TopicMap,
+} from '../lib/telemetry/mqtt'
+
+// Bridge MQTT sensor topics into a running dashboard's telemetry ingest API.
+//
+//   npm run mqtt -- [--broker mqtt://localhost:1883] [--dashboard http://localhost:3000]
+//                   [--topics topics.json] [--reorder-ms 2000]
+//                   [--embedded] [--demo N747BA]
+//
+// --topics is a JSON object of topic pattern -> field, e.g.
+//   { "bench/{tail}/hyd/psi": "subsystems.hydraulic_pressure" }
+// and replaces the default aircraft/{tail}/... topics. --embedded starts an
+// in-process broker on the --broker port for development, and --demo
+// publishes a seeded simulated flight for that tail, one topic per sensor
+// each second in shuffled order. Ctrl+C sends what is buffered and exits.
+
+const { values } = parseArgs({
+  options: {
+    broker: { type: 'string', default: 'mqtt://localhost:1883' },
+    dashboard: { type: 'string', default: 'http://localhost:3000' },
+    topics: { type: 'string' },
+    'reorder-ms': { type: 'string', default: String(DEFAULT_REORDER_WINDOW_MS) },
+    embedded: { type: 'boolean', default: false },
+    demo: { type: 'string' },
+  },
+})
+
+async function loadTopics(file: string | undefined): Promise<TopicMap> {
+  if (!file) return DEFAULT_TOPIC_MAP
+  const parsed = topicMapSchema.safeParse(JSON.parse(await readFile(file, 'utf8')))
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'topics'}: ${issue.message}`)
+    throw new Error(`Invalid topic map ${file}: ${issues.join('; ')}`)
+  }
+  return parsed.data
+}
+
+async function startEmbeddedBroker(url: string): Promise<() => Promise<void>> {
+  const { Aedes } = await import('aedes')
+  const broker = await Aedes.createBroker()
+  const server = createServer(broker.handle)
+  const port = Number(new URL(url).port || 1883)
+  await new Promise<void>((resolve, reject) => server.once('error', reject).listen(port, resolve))
+  console.log(`Embedded MQTT broker listening on port ${port}`)
+  return () => new Promise<void>((resolve) => server.close(() => broker.close(() => resolve())))
+}
+
+// Publishes a simulated flight on the default topics, one second at a time
+async function startDemo(url: string, tail: string): Promise<() => Promise<void>> {
+  const client = await mqtt.connectAsync(url)
+  const topicFor = Object.fromEntries(Object.entries(DEFAULT_TOPIC_MAP).map(([pattern, field]) => [field, pattern.replace('{tail}', tail)]))
+  let state = createSimulation(Date.now() % 1_000_000, DEFAULT_ENGINE_SENSORS, DEFAULT_SUBSYSTEM_SENSORS, DEFAULT_PROFILE_ID, [])
+  const publishSecond = async () => {
+    const timestamp = Date.now()
+    const values: [TelemetryField, number | string][] = [
+      ['phase', state.phase],
+      ['speed', state.speed],
+      ['altitude', state.altitude],
+      ...ENGINE_FEATURES.map((key): [TelemetryField, number] => [`engine.${key}`, state.engine[key]]),
+      ...SUBSYSTEM_SENSOR_NAMES.map((key): [TelemetryField, number] => [`subsystems.${key}`, state.subsystems[key]]),
+    ]
+    values.sort(() => Math.random() - 0.5)
+    await Promise.all(values.map(([field, value]) => client.publishAsync(topicFor[field], JSON.stringify({ value, timestamp }))))
+    state = state.time >= simulationDuration(state) ? state : stepSimulation(state)
+  }
+  const timer = setInterval(() => publishSecond().catch((error) => console.error('demo publish failed:', error)), 1000)
+  console.log(`Publishing a simulated flight for ${tail}`)
+  return async () => {
+    clearInterval(timer)
+    await client.endAsync()
+  }
+}
+
+async function main() {
+  const broker = values.broker ?? 'mqtt://localhost:1883'
+  const reorderWindowMs = Number(values['reorder-ms'])
+  if (!Number.isFinite(reorderWindowMs) || reorderWindowMs < 0) {
+    throw new Error(`--reorder-ms must be a non-negative number, got ${values['reorder-ms']}`)
+  }
+  const topics = await loadTopics(values.topics)
+  const stopBroker = values.embedded ? await startEmbeddedBroker(broker) : undefined
+  const bridge = await startMqttBridge({
+    url: broker,
+    topics,
+    reorderWindowMs,
+    send: createHttpIngestSender(values.dashboard ?? 'http://localhost:3000'),
+  })
+  const stopDemo = values.demo ? await startDemo(broker, values.demo.toUpperCase()) : undefined
+  console.log(`Bridging ${broker} -> ${values.dashboard}`)
+
+  process.once('SIGINT', async () => {
+    await stopDemo?.()
+    await bridge.stop()
+    await stopBroker?.()
+    const { messages, ignored, late, readings, stale, rejected } = bridge.stats()
+    console.log(`${messages} messages (${ignored} ignored, ${late} late) -> ${readings} readings ingested, ${stale} stale, ${rejected} rejected`)
+  })
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})
@@ -0,0 +1,96 @@
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { parseArgs } from 'util'
+import { createEnvelopeBackend } from '../lib/prediction/backends/envelope'
+import { createLocalBackend } from '../lib/prediction/backends/local'
+import { createMockBackend } from '../lib/prediction/backends/mock'
+import type { PredictionBackend } from '../lib/prediction/types'
+import { runScenarioAssertions, toJUnit, type ScenarioRunResult } from '../lib/simulation/runner'
+import { listScenarios, readScenarioFile, type ScenarioFile } from '../lib/simulation/scenario-files'
+
+// Run scenario files headlessly and check their expected alerts.
+//
+//   npm run scenarios -- [hydraulic-leak-takeoff.yaml ...]
+//                        [--backend envelope|mock|local] [--junit report.xml | --junit -]
+//
+// With no files, every scenario in scenarios/ runs. The default envelope
+// backend derives RUL from how far sensors are outside their normal range,
+// so injected faults raise alerts deterministically. Exits 1 when any
+// expectation fails or a scenario cannot be loaded or run.
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    backend: { type: 'string', default: 'envelope' },
+    junit: { type: 'string' },
+  },
+})
+
+const BACKENDS: Record<string, () => PredictionBackend> = {
+  envelope: createEnvelopeBackend,
+  mock: createMockBackend,
+  local: createLocalBackend,
+}
+
+// Keep stdout clean for the XML when it goes there
+const log = values.junit === '-' ? console.error : console.log
+
+async function loadFiles(): Promise<{ files: ScenarioFile[]; errors: { file: string; error: string }[] }> {
+  if (!positionals.length) {
+    const { scenarios, errors } = await listScenarios()
+    return { files: scenarios, errors }
+  }
+  const files: ScenarioFile[] = []
+  const errors: { file: string; error: string }[] = []
+  for (const file of positionals) {
+    try {
+      files.push(await readScenarioFile(path.basename(file)))
+    } catch (error) {
+      errors.push({ file, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+  return { files, errors }
+}
+
+async function main() {
+  const createBackend = BACKENDS[values.backend ?? 'envelope']
+  if (!createBackend) {
+    throw new Error(`Unknown backend "${values.backend}" (expected ${Object.keys(BACKENDS).join(', ')})`)
+  }
+  const backend = createBackend()
+  const { files, errors } = await loadFiles()
+
+  const runs: { id: string; result: ScenarioRunResult }[] = errors.map(({ file, error }) => ({
+    id: path.basename(file, path.extname(file)),
+    result: { name: file, ticks: 0, duration_ms: 0, alerts: [], results: [], passed: false, error },
+  }))
+  for (const file of files) {
+    runs.push({ id: file.id, result: await runScenarioAssertions(file.scenario, backend) })
+  }
+
+  for (const { id, result } of runs) {
+    log(`${result.passed ? 'PASS' : 'FAIL'} ${id}: ${result.name} (${result.ticks}s simulated, ${result.alerts.length} alerts)`)
+    if (result.error) log(`  ERROR ${result.error}`)
+    for (const item of result.results) {
+      log(`  ${item.passed ? '✓' : '✗'} ${item.description} - ${item.detail}`)
+    }
+  }
+
+  const failed = runs.filter(({ result }) => !result.passed).length
+  log(`\n${runs.length - failed}/${runs.length} scenarios passed (backend: ${backend.id})`)
+
+  if (values.junit === '-') {
+    process.stdout.write(toJUnit(runs))
+  } else if (values.junit) {
+    await mkdir(path.dirname(path.resolve(values.junit)), { recursive: true })
+    await writeFile(values.junit, toJUnit(runs))
+    log(`Wrote ${values.junit}`)
+  }
+
+  process.exitCode = failed ? 1 : 0
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})